@@ -1,7 +1,12 @@
 import express from "express";
 import cors from "cors";
 import { AppConfig } from "./config/config";
+import { buildAnalysisRouter } from "./routes/analysisRoutes";
 import { buildGenerationRouter } from "./routes/generationRoutes";
+import { buildImportRouter } from "./routes/importRoutes";
+import { buildJobRouter } from "./routes/jobRoutes";
+import { buildRepoRouter } from "./routes/repoRoutes";
+import { buildTextRouter } from "./routes/textRoutes";
 import { errorHandler } from "./middlewares/errorHandler";
 import { requestLogger } from "./middlewares/requestLogger";
 
@@ -23,6 +28,11 @@ export function createApp(config: AppConfig) {
   });
 
   app.use("/api", buildGenerationRouter(config));
+  app.use("/api", buildTextRouter());
+  app.use("/api", buildImportRouter());
+  app.use("/api", buildAnalysisRouter(config));
+  app.use("/api", buildRepoRouter(config));
+  app.use("/api", buildJobRouter());
 
   app.use(errorHandler);
 
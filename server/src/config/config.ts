@@ -1,5 +1,18 @@
 import path from "node:path";
-import type { CommitIntensityMap } from "../../../shared/src/types";
+import type {
+  CommitIntensityMap,
+  SigningFormat,
+} from "../../../shared/src/types";
+
+/**
+ * A commit signing key the server may use.
+ */
+export interface SigningKeyConfig {
+  /** Signature format. */
+  format: SigningFormat;
+  /** GPG key id for `openpgp`, private key path for `ssh`. */
+  key: string;
+}
 
 /**
  * Application configuration values used by the API server.
@@ -20,6 +33,20 @@ export interface AppConfig {
   intensityMap: CommitIntensityMap;
   /** Whether the API accepts a request-level outputRoot override. */
   allowOutputRootOverride: boolean;
+  /** Signing keys requests may choose from, by name. */
+  signingKeys: Record<string, SigningKeyConfig>;
+  /** Name of the key used by `sign: true` requests that do not name one. */
+  defaultSigningKey?: string;
+  /** GNUPGHOME passed to Git when signing with `openpgp` keys. */
+  gnupgHome?: string;
+  /** Remote URLs requests may push to, by name. URLs may embed credentials. */
+  pushRemotes: Record<string, string>;
+  /** Whether requests may push to bare repositories under the output root. */
+  allowLocalPushRemotes: boolean;
+  /** JSON-lines file generation jobs are recorded in. */
+  jobStorePath: string;
+  /** Maximum number of generation jobs running at once. */
+  maxConcurrentJobs: number;
 }
 
 /**
@@ -56,5 +83,79 @@ export function loadConfig(): AppConfig {
     defaultAuthorEmail: process.env.GIT_AUTHOR_EMAIL ?? "drawbot@example.com",
     intensityMap,
     allowOutputRootOverride: process.env.ALLOW_OUTPUT_ROOT_OVERRIDE === "true",
+    ...loadSigningConfig(),
+    pushRemotes: loadPushRemotes(),
+    allowLocalPushRemotes: process.env.ALLOW_LOCAL_PUSH_REMOTES === "true",
+    jobStorePath: path.resolve(
+      process.env.JOB_STORE_PATH ?? path.join(outputRoot, ".jobs.jsonl")
+    ),
+    maxConcurrentJobs: loadMaxConcurrentJobs(),
+  };
+}
+
+/**
+ * Reads the generation concurrency limit from `MAX_CONCURRENT_JOBS`.
+ *
+ * @return Maximum number of jobs running at once; 1 by default.
+ */
+function loadMaxConcurrentJobs(): number {
+  const value = Number(process.env.MAX_CONCURRENT_JOBS ?? 1);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error("MAX_CONCURRENT_JOBS must be a positive integer.");
+  }
+  return value;
+}
+
+/**
+ * Reads the push allowlist from `PUSH_REMOTES`, a JSON object mapping names
+ * to remote URLs.
+ *
+ * @return Remote URLs by name.
+ */
+function loadPushRemotes(): Record<string, string> {
+  const remotes: Record<string, string> = process.env.PUSH_REMOTES
+    ? JSON.parse(process.env.PUSH_REMOTES)
+    : {};
+  for (const [name, url] of Object.entries(remotes)) {
+    if (typeof url !== "string" || !url || url.startsWith("-")) {
+      throw new Error(`Invalid remote "${name}" in PUSH_REMOTES.`);
+    }
+  }
+  return remotes;
+}
+
+/**
+ * Reads signing keys from `SIGNING_KEY`/`SIGNING_FORMAT` (the default key,
+ * registered as `default`) and `SIGNING_KEYS`, a JSON object of named keys.
+ *
+ * @return Signing keys, default key name and GNUPGHOME.
+ */
+function loadSigningConfig(): Pick<
+  AppConfig,
+  "signingKeys" | "defaultSigningKey" | "gnupgHome"
+> {
+  const signingKeys: Record<string, SigningKeyConfig> = process.env.SIGNING_KEYS
+    ? JSON.parse(process.env.SIGNING_KEYS)
+    : {};
+  for (const [name, key] of Object.entries(signingKeys)) {
+    if ((key.format !== "openpgp" && key.format !== "ssh") || !key.key) {
+      throw new Error(`Invalid signing key "${name}" in SIGNING_KEYS.`);
+    }
+  }
+
+  let defaultSigningKey: string | undefined;
+  if (process.env.SIGNING_KEY) {
+    const format = process.env.SIGNING_FORMAT ?? "openpgp";
+    if (format !== "openpgp" && format !== "ssh") {
+      throw new Error("SIGNING_FORMAT must be openpgp or ssh.");
+    }
+    signingKeys.default = { format, key: process.env.SIGNING_KEY };
+    defaultSigningKey = "default";
+  }
+
+  return {
+    signingKeys,
+    defaultSigningKey,
+    gnupgHome: process.env.SIGNING_GNUPGHOME,
   };
 }
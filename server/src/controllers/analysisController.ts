@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from "express";
+import type { AnalyzeRequest } from "../../../shared/src/types";
+import { AppConfig } from "../config/config";
+import { analyzeRepository } from "../services/historyService";
+import { assertValidIsoDate } from "../utils/date";
+import { resolveOutputRoot } from "../utils/validation";
+
+/**
+ * Controller dependencies for repository analysis.
+ */
+export interface AnalysisControllerDeps {
+  config: AppConfig;
+}
+
+/**
+ * Builds analysis handlers.
+ *
+ * @param deps Controller dependencies.
+ * @return Controller handlers.
+ */
+export function createAnalysisController(deps: AnalysisControllerDeps) {
+  const { config } = deps;
+
+  return {
+    /**
+     * Handles repository analysis requests.
+     */
+    async analyze(req: Request, res: Response, next: NextFunction) {
+      try {
+        const payload = req.body as AnalyzeRequest;
+        assertValidIsoDate(payload.startDate, "startDate");
+        const outputRoot = resolveOutputRoot(payload.outputRoot, config);
+        const result = await analyzeRepository(
+          payload.folderName,
+          outputRoot,
+          payload.startDate,
+          payload.cols ?? 51,
+          payload.authorEmail
+        );
+
+        res.status(200).json(result);
+      } catch (error) {
+        next(error);
+      }
+    },
+  };
+}
@@ -1,21 +1,69 @@
+import { randomUUID } from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { Request, Response, NextFunction } from "express";
 import type {
+  CancelGenerationRequest,
+  DailyCommitCounts,
+  GenerateAcceptedResponse,
   GenerateRequest,
+  GenerateResponse,
   PreviewRequest,
+  PushReport,
+  VerifyRequest,
 } from "../../../shared/src/types";
 import { AppConfig } from "../config/config";
-import { createPlan } from "../services/planService";
+import { simulateGithubLevels } from "../domain/githubRendering";
+import { buildPlannedCounts } from "../domain/verification";
+import { createPlan, PlanResult } from "../services/planService";
+import {
+  resolveBaselineCounts,
+  resolveExistingRepo,
+} from "../services/historyService";
 import { generateRepository } from "../services/gitService";
 import {
+  cancelJob,
+  completeJob,
+  createJob,
+  failJob,
+  startJob,
+} from "../services/jobService";
+import { createJobQueue } from "../services/jobQueue";
+import {
+  CommitSigningKey,
+  resolveSigningKey,
+} from "../services/signingService";
+import {
+  assertOriginAvailable,
+  pushBranch,
+  PushRemote,
+  resolvePushRemote,
+} from "../services/pushService";
+import {
+  cancelProgress,
   completeProgress,
   failProgress,
+  getProgress,
+  queueProgress,
+  registerCancellation,
+  releaseCancellation,
+  requestCancellation,
   startProgress,
+  startProgressStage,
   updateProgress,
 } from "../services/progressService";
-import { ValidationError } from "../utils/errors";
-import { assertPathWithinRoot, assertSafeFolderName } from "../utils/validation";
+import { verifyBranch } from "../services/verificationService";
+import {
+  CancelledError,
+  ConflictError,
+  ValidationError,
+} from "../utils/errors";
+import {
+  assertPathWithinRoot,
+  assertSafeFolderName,
+  assertSafeIdentity,
+  resolveOutputRoot,
+} from "../utils/validation";
 
 /**
  * Controller dependencies for commit generation.
@@ -25,13 +73,14 @@ export interface GenerationControllerDeps {
 }
 
 /**
- * Builds preview and generate handlers.
+ * Builds preview, generate and verify handlers.
  *
  * @param deps Controller dependencies.
  * @return Controller handlers.
  */
 export function createGenerationController(deps: GenerationControllerDeps) {
   const { config } = deps;
+  const queue = createJobQueue(config.maxConcurrentJobs);
 
   return {
     /**
@@ -42,17 +91,19 @@ export function createGenerationController(deps: GenerationControllerDeps) {
         const payload = req.body as PreviewRequest;
         assertSafeFolderName(payload.folderName);
         const outputRoot = resolveOutputRoot(payload.outputRoot, config);
-        const planResult = createPlan(
-          payload.grid,
-          payload.dateRange,
-          payload.intensityMap ?? config.intensityMap,
-          payload.randomSeed
+        const { planResult, baselineCounts } = await buildPlanForRequest(
+          payload,
+          outputRoot,
+          config
         );
 
         res.status(200).json({
           summary: planResult.summary,
           warnings: planResult.warnings,
           plan: planResult.plan,
+          predictedLevels: simulateGithubLevels(planResult.plan, baselineCounts),
+          calibratedIntensityMap: planResult.calibratedIntensityMap,
+          authorContributions: planResult.authorContributions,
         });
       } catch (error) {
         next(error);
@@ -60,61 +111,110 @@ export function createGenerationController(deps: GenerationControllerDeps) {
     },
 
     /**
-     * Handles generation requests.
+     * Handles generation requests. Jobs run through the queue; `async`
+     * requests get the job id as soon as the job is queued.
      */
     async generate(req: Request, res: Response, next: NextFunction) {
+      const payload = req.body as GenerateRequest;
+      let jobId: string | undefined;
       try {
-        const payload = req.body as GenerateRequest;
-        assertSafeFolderName(payload.folderName);
-        const outputRoot = resolveOutputRoot(payload.outputRoot, config);
-        const repoPath = path.join(outputRoot, payload.folderName);
-        const progressId = payload.progressId;
-
-        const planResult = createPlan(
-          payload.grid,
-          payload.dateRange,
-          payload.intensityMap ?? config.intensityMap,
-          payload.randomSeed
+        const job = await createJob(payload.progressId ?? randomUUID(), payload);
+        jobId = job.id;
+        const prepared = await prepareGeneration(payload, config);
+
+        const signal = registerCancellation(job.id);
+        const execution = queue.enqueue(
+          {
+            id: job.id,
+            lockKey: prepared.repoPath,
+            signal,
+            onPositionChange: (position) => queueProgress(job.id, position),
+          },
+          () => runGeneration(job.id, payload, prepared, config, signal)
         );
 
-        if (progressId) {
-          startProgress(progressId, "Preparing repository");
+        if (payload.async) {
+          execution
+            .catch((error) => recordJobFailure(job.id, error))
+            .catch((recordError: Error) =>
+              failProgress(job.id, recordError.message)
+            );
+          const queuePosition = queue.getPosition(job.id);
+          const response: GenerateAcceptedResponse = {
+            jobId: job.id,
+            status: queuePosition === undefined ? "running" : "pending",
+            queuePosition,
+          };
+          res.status(202).json(response);
+          return;
         }
 
-        if (payload.overwriteExisting) {
-          await removeExistingRepo(repoPath, outputRoot);
+        res.status(200).json(await execution);
+      } catch (error) {
+        // Without a job the id belongs to another queued or running generation.
+        if (!jobId) {
+          next(error);
+          return;
         }
+        try {
+          await recordJobFailure(jobId, error);
+        } catch (recordError) {
+          // Without a record of the outcome, the job would look unfinished.
+          next(recordError);
+          return;
+        }
+        next(error);
+      }
+    },
 
-        const gitLogSample = await generateRepository({
-          repoPath,
-          plan: planResult.plan,
-          summary: planResult.summary,
-          authorName: payload.author?.name ?? config.defaultAuthorName,
-          authorEmail: payload.author?.email ?? config.defaultAuthorEmail,
-          randomSeed: payload.randomSeed,
-          dryRun: payload.dryRun,
-          onProgress: progressId
-            ? (progress, message) => updateProgress(progressId, progress, message)
-            : undefined,
-        });
+    /**
+     * Handles cancellation requests for running generations.
+     */
+    async cancel(req: Request, res: Response, next: NextFunction) {
+      try {
+        const { id } = req.params;
+        const payload = req.body as CancelGenerationRequest;
+        if (!requestCancellation(id, payload.keepPartial ?? false)) {
+          throw new ConflictError(
+            "No queued or running generation for this progress id."
+          );
+        }
+
+        res.status(202).json(getProgress(id));
+      } catch (error) {
+        next(error);
+      }
+    },
 
-        if (progressId) {
-          completeProgress(progressId, "Generation complete");
+    /**
+     * Handles verification of a generated repository against its plan.
+     */
+    async verify(req: Request, res: Response, next: NextFunction) {
+      try {
+        const payload = req.body as VerifyRequest;
+        assertSafeFolderName(payload.folderName);
+        const outputRoot = resolveOutputRoot(payload.outputRoot, config);
+        const repoPath = await resolveExistingRepo(payload.folderName, outputRoot);
+
+        let plannedCounts: DailyCommitCounts | undefined;
+        if (payload.request) {
+          const { planResult } = await buildPlanForRequest(
+            payload.request,
+            outputRoot,
+            config
+          );
+          plannedCounts = buildPlannedCounts(planResult.plan);
         }
 
-        res.status(200).json({
-          summary: planResult.summary,
-          warnings: planResult.warnings,
-          repoPath,
-          gitLogSample,
+        const report = await verifyBranch(repoPath, {
+          branch: payload.branch,
+          baseRef: payload.baseRef,
+          timeZone: payload.timeZone,
+          plannedCounts,
         });
+
+        res.status(200).json(report);
       } catch (error) {
-        const payload = req.body as GenerateRequest;
-        if (payload?.progressId) {
-          const message =
-            error instanceof Error ? error.message : "Failed to generate commits.";
-          failProgress(payload.progressId, message);
-        }
         next(error);
       }
     },
@@ -122,21 +222,190 @@ export function createGenerationController(deps: GenerationControllerDeps) {
 }
 
 /**
- * Resolves the output root based on server policy.
+ * A validated generation request, ready to run.
+ */
+interface PreparedGeneration {
+  outputRoot: string;
+  repoPath: string;
+  planResult: PlanResult;
+  signing?: CommitSigningKey;
+  pushRemote?: PushRemote;
+}
+
+/**
+ * Validates a generation request and builds its plan, so invalid requests
+ * fail before they are queued.
  *
- * @param requestedRoot Requested output root.
+ * @param payload Request payload.
  * @param config App configuration.
- * @return Output root path.
+ * @return Prepared generation.
  */
-function resolveOutputRoot(
-  requestedRoot: string | undefined,
+async function prepareGeneration(
+  payload: GenerateRequest,
   config: AppConfig
-): string {
-  if (requestedRoot && !config.allowOutputRootOverride) {
-    throw new ValidationError("Output root override is disabled by server.");
+): Promise<PreparedGeneration> {
+  assertSafeFolderName(payload.folderName);
+  if (payload.author) {
+    assertSafeIdentity(payload.author);
+  }
+  const outputRoot = resolveOutputRoot(payload.outputRoot, config);
+  const repoPath = path.join(outputRoot, payload.folderName);
+
+  const signing = resolveSigningKey(payload, config);
+  const { planResult } = await buildPlanForRequest(payload, outputRoot, config);
+
+  if (payload.target && payload.overwriteExisting) {
+    throw new ValidationError(
+      "overwriteExisting cannot be combined with an existing repository target."
+    );
+  }
+  if (payload.resume && payload.overwriteExisting) {
+    throw new ValidationError("overwriteExisting cannot be combined with resume.");
+  }
+
+  const pushRemote = payload.push
+    ? await resolvePushRemote(payload.push, config, outputRoot)
+    : undefined;
+
+  return { outputRoot, repoPath, planResult, signing, pushRemote };
+}
+
+/**
+ * Runs a queued generation job: writes the history, pushes it if requested
+ * and records the outcome.
+ *
+ * @param jobId Job id, also used as the progress id.
+ * @param payload Request payload.
+ * @param prepared Prepared generation.
+ * @param config App configuration.
+ * @param signal Cancellation signal.
+ * @return Generation response.
+ */
+async function runGeneration(
+  jobId: string,
+  payload: GenerateRequest,
+  prepared: PreparedGeneration,
+  config: AppConfig,
+  signal: AbortSignal
+): Promise<GenerateResponse> {
+  const { outputRoot, repoPath, planResult, signing, pushRemote } = prepared;
+  await startJob(jobId);
+  startProgress(jobId, "Preparing repository");
+
+  if (pushRemote && payload.target) {
+    await assertOriginAvailable(repoPath, pushRemote);
+  }
+  if (payload.overwriteExisting) {
+    await removeExistingRepo(repoPath, outputRoot);
+  }
+
+  const result = await generateRepository({
+    repoPath,
+    plan: planResult.plan,
+    summary: planResult.summary,
+    authorName: payload.author?.name ?? config.defaultAuthorName,
+    authorEmail: payload.author?.email ?? config.defaultAuthorEmail,
+    authors: payload.authors?.members,
+    committer: payload.authors?.committer,
+    randomSeed: payload.randomSeed,
+    timeZone: payload.timeZone,
+    activityProfile: payload.activityProfile,
+    backend: payload.backend,
+    target: payload.target,
+    contentGenerator: payload.contentGenerator,
+    contentPath: payload.contentPath,
+    outputRoot,
+    signing,
+    resume: payload.resume,
+    dryRun: payload.dryRun,
+    signal,
+    onProgress: (progress, message) => updateProgress(jobId, progress, message),
+  });
+  releaseCancellation(jobId);
+
+  let push: PushReport | undefined;
+  if (pushRemote && !payload.dryRun) {
+    startProgressStage(jobId, "pushing", `Pushing ${result.branch} to origin`);
+    push = await pushBranch(repoPath, result.branch, pushRemote);
+  }
+
+  const response: GenerateResponse = {
+    summary: planResult.summary,
+    warnings: planResult.warnings,
+    repoPath,
+    gitLogSample: result.gitLogSample,
+    branch: result.branch,
+    commitsAdded: result.commitsAdded,
+    signing: result.signing,
+    push,
+    verification: result.verification,
+    jobId,
+  };
+  await completeJob(jobId, response);
+  completeProgress(
+    jobId,
+    push && !push.pushed ? "Generation complete; push failed" : "Generation complete"
+  );
+  return response;
+}
+
+/**
+ * Records why a job did not complete, on its progress stream and the job.
+ *
+ * @param jobId Job id.
+ * @param error Error that stopped the job.
+ */
+async function recordJobFailure(jobId: string, error: unknown): Promise<void> {
+  releaseCancellation(jobId);
+  if (error instanceof CancelledError) {
+    const message = error.keepPartial
+      ? "Generation cancelled; partial history kept"
+      : "Generation cancelled";
+    cancelProgress(jobId, message);
+    await cancelJob(jobId, message);
+    return;
   }
 
-  return path.resolve(requestedRoot ?? config.outputRoot);
+  const message =
+    error instanceof Error ? error.message : "Failed to generate commits.";
+  failProgress(jobId, message);
+  await failJob(jobId, message);
+}
+
+/**
+ * Builds the commit plan for a preview or generate request.
+ *
+ * @param payload Request payload.
+ * @param outputRoot Resolved output root.
+ * @param config App configuration.
+ * @return Plan result and the resolved baseline counts, if any.
+ */
+async function buildPlanForRequest(
+  payload: PreviewRequest,
+  outputRoot: string,
+  config: AppConfig
+): Promise<{ planResult: PlanResult; baselineCounts?: DailyCommitCounts }> {
+  const baselineCounts = payload.baseline
+    ? await resolveBaselineCounts(payload.baseline, outputRoot)
+    : undefined;
+
+  const planResult = createPlan({
+    grid: payload.grid,
+    dateRange: payload.dateRange,
+    intensityMap: payload.intensityMap ?? config.intensityMap,
+    randomSeed: payload.randomSeed,
+    distribution: payload.distribution,
+    totalCommitBudget: payload.totalCommitBudget,
+    budgetMode: payload.budgetMode,
+    timeZone: payload.timeZone,
+    activityProfile: payload.activityProfile,
+    commitMessages: payload.commitMessages,
+    authors: payload.authors,
+    baselineCounts,
+    calibrate: payload.calibrate,
+  });
+
+  return { planResult, baselineCounts };
 }
 
 /**
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from "express";
+import type { ImportImageRequest } from "../../../shared/src/types";
+import { decodeImage } from "../domain/imageDecoder";
+import { imageToGrid } from "../domain/imageGrid";
+import { ValidationError } from "../utils/errors";
+
+/**
+ * Builds import handlers.
+ *
+ * @return Controller handlers.
+ */
+export function createImportController() {
+  return {
+    /**
+     * Handles image import requests.
+     */
+    async importImage(req: Request, res: Response, next: NextFunction) {
+      try {
+        const payload = req.body as ImportImageRequest;
+        const image = decodeImage(decodeBase64Image(payload.imageBase64));
+        const grid = imageToGrid(image, {
+          cols: payload.cols ?? 51,
+          threshold: payload.threshold ?? 0.1,
+          contrast: payload.contrast ?? 1,
+          invert: payload.invert ?? false,
+          dither: payload.dither ?? false,
+          stretch: payload.stretch ?? false,
+        });
+
+        res.status(200).json({
+          grid,
+          sourceWidth: image.width,
+          sourceHeight: image.height,
+        });
+      } catch (error) {
+        next(error);
+      }
+    },
+  };
+}
+
+/**
+ * Decodes a base64 payload, accepting an optional data URL prefix.
+ *
+ * @param value Base64 string or data URL.
+ * @return Raw bytes.
+ */
+function decodeBase64Image(value: string): Uint8Array {
+  const base64 = value.replace(/^data:[^;,]+;base64,/, "");
+  if (!/^[A-Za-z0-9+/=\s]+$/.test(base64)) {
+    throw new ValidationError("imageBase64 must be base64 encoded.");
+  }
+  return new Uint8Array(Buffer.from(base64, "base64"));
+}
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from "express";
+import type { JobStatus, ListJobsResponse } from "../../../shared/src/types";
+import { getJob, listJobs } from "../services/jobService";
+import { NotFoundError } from "../utils/errors";
+
+/**
+ * Builds job listing handlers.
+ *
+ * @return Controller handlers.
+ */
+export function createJobController() {
+  return {
+    /**
+     * Lists recorded jobs, newest first.
+     */
+    async list(req: Request, res: Response, next: NextFunction) {
+      try {
+        // validateQuery has already coerced `limit` to a number.
+        const query = req.query as unknown as {
+          status?: JobStatus;
+          folder?: string;
+          limit: number;
+        };
+        const response: ListJobsResponse = {
+          jobs: listJobs({
+            status: query.status,
+            folderName: query.folder,
+            limit: query.limit,
+          }),
+        };
+
+        res.status(200).json(response);
+      } catch (error) {
+        next(error);
+      }
+    },
+
+    /**
+     * Returns one recorded job.
+     */
+    async get(req: Request, res: Response, next: NextFunction) {
+      try {
+        const job = getJob(req.params.id);
+        if (!job) {
+          throw new NotFoundError(`Job not found: ${req.params.id}.`);
+        }
+
+        res.status(200).json(job);
+      } catch (error) {
+        next(error);
+      }
+    },
+  };
+}
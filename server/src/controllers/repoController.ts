@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from "express";
+import type { RepoDownloadFormat } from "../../../shared/src/types";
+import { AppConfig } from "../config/config";
+import {
+  prepareRepoDownload,
+  streamRepoDownload,
+} from "../services/downloadService";
+import { resolveOutputRoot } from "../utils/validation";
+
+/**
+ * Controller dependencies for generated repository access.
+ */
+export interface RepoControllerDeps {
+  config: AppConfig;
+}
+
+/**
+ * Builds generated repository handlers.
+ *
+ * @param deps Controller dependencies.
+ * @return Controller handlers.
+ */
+export function createRepoController(deps: RepoControllerDeps) {
+  const { config } = deps;
+
+  return {
+    /**
+     * Streams a generated repository as a bundle or archive.
+     */
+    async download(req: Request, res: Response, next: NextFunction) {
+      try {
+        const query = req.query as {
+          format: RepoDownloadFormat;
+          outputRoot?: string;
+        };
+        const outputRoot = resolveOutputRoot(query.outputRoot, config);
+        const download = await prepareRepoDownload(
+          req.params.folder,
+          outputRoot,
+          query.format
+        );
+
+        res.status(200);
+        res.setHeader("Content-Type", download.contentType);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${download.fileName}"`
+        );
+        await streamRepoDownload(download, res);
+      } catch (error) {
+        if (res.headersSent || res.destroyed) {
+          // The file is partially sent; cutting the connection marks it incomplete.
+          res.destroy();
+          return;
+        }
+        res.removeHeader("Content-Disposition");
+        next(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from "express";
+import type { RenderTextRequest } from "../../../shared/src/types";
+import { renderTextBanner } from "../domain/textBanner";
+
+/**
+ * Builds text banner handlers.
+ *
+ * @return Controller handlers.
+ */
+export function createTextController() {
+  return {
+    /**
+     * Handles text rendering requests.
+     */
+    async renderText(req: Request, res: Response, next: NextFunction) {
+      try {
+        const payload = req.body as RenderTextRequest;
+        const result = renderTextBanner(payload.text, {
+          font: payload.font ?? "5x7",
+          align: payload.align ?? "center",
+          letterSpacing: payload.letterSpacing ?? 1,
+          offset: payload.offset ?? 0,
+          level: payload.level ?? 4,
+          cols: payload.cols ?? 51,
+        });
+
+        res.status(200).json(result);
+      } catch (error) {
+        next(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,255 @@
+import type {
+  ActivityProfile,
+  ActivityProfileName,
+  TimeWindow,
+} from "../../../shared/src/types";
+import { ValidationError } from "../utils/errors";
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * A stretch of a day with a constant commit density.
+ */
+export interface ActivitySegment {
+  /** Start, in seconds since midnight. */
+  start: number;
+  /** End (exclusive), in seconds since midnight. */
+  end: number;
+  /** Relative density. */
+  weight: number;
+}
+
+/**
+ * Repeats the same windows for all seven weekdays.
+ *
+ * @param windows Windows for every day.
+ * @return Windows per weekday.
+ */
+function everyDay(windows: TimeWindow[]): TimeWindow[][] {
+  return Array.from({ length: 7 }, () => windows);
+}
+
+/**
+ * Built-in activity profiles.
+ */
+export const ACTIVITY_PROFILES: Record<ActivityProfileName, ActivityProfile> = {
+  daytime: {
+    windowsByWeekday: everyDay([{ start: "09:00", end: "20:00" }]),
+  },
+  "office-hours": {
+    windowsByWeekday: [
+      [{ start: "11:00", end: "15:00" }],
+      ...Array.from({ length: 5 }, () => [{ start: "09:00", end: "18:00" }]),
+      [{ start: "11:00", end: "15:00" }],
+    ],
+    breaks: [{ start: "12:00", end: "13:00" }],
+    hourlyWeights: [
+      0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 3, 2, 0, 1, 2, 3, 2, 1, 0, 0, 0, 0, 0, 0,
+    ],
+  },
+  "night-owl": {
+    windowsByWeekday: everyDay([
+      { start: "00:00", end: "03:00" },
+      { start: "19:00", end: "24:00" },
+    ]),
+    hourlyWeights: [
+      4, 3, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 2, 3, 4, 4,
+    ],
+  },
+  "weekend-hacker": {
+    windowsByWeekday: [
+      [{ start: "10:00", end: "24:00" }],
+      ...Array.from({ length: 5 }, () => [{ start: "19:30", end: "23:30" }]),
+      [{ start: "10:00", end: "24:00" }],
+    ],
+    breaks: [{ start: "13:00", end: "14:00" }],
+  },
+};
+
+/**
+ * Resolves a profile name or custom profile and validates it.
+ *
+ * @param profile Profile name or definition; `daytime` when omitted.
+ * @return Active segments per weekday (index 0 = Sunday).
+ */
+export function resolveActivitySegments(
+  profile: ActivityProfileName | ActivityProfile | undefined
+): ActivitySegment[][] {
+  const definition =
+    typeof profile === "string"
+      ? ACTIVITY_PROFILES[profile]
+      : (profile ?? ACTIVITY_PROFILES.daytime);
+
+  if (!definition) {
+    throw new ValidationError(`Unknown activity profile: ${String(profile)}.`);
+  }
+  validateActivityProfile(definition);
+
+  return definition.windowsByWeekday.map((windows, weekday) => {
+    const segments = buildDaySegments(windows, definition);
+    if (segments.length === 0) {
+      throw new ValidationError(
+        `Activity profile has no active time on ${WEEKDAY_NAMES[weekday]}.`
+      );
+    }
+    return segments;
+  });
+}
+
+/**
+ * Validates the shape of an activity profile.
+ *
+ * @param profile Profile definition.
+ */
+function validateActivityProfile(profile: ActivityProfile): void {
+  if (profile.windowsByWeekday.length !== 7) {
+    throw new ValidationError(
+      "Activity profile must define windows for all 7 weekdays."
+    );
+  }
+  for (const window of [
+    ...profile.windowsByWeekday.flat(),
+    ...(profile.breaks ?? []),
+  ]) {
+    if (parseTime(window.start) >= parseTime(window.end)) {
+      throw new ValidationError(
+        `Time window ${window.start}-${window.end} must end after it starts.`
+      );
+    }
+  }
+  const weights = profile.hourlyWeights;
+  if (weights) {
+    if (weights.length !== 24) {
+      throw new ValidationError("hourlyWeights must have 24 values.");
+    }
+    if (weights.some((weight) => !Number.isFinite(weight) || weight < 0)) {
+      throw new ValidationError("hourlyWeights must be non-negative numbers.");
+    }
+  }
+}
+
+/**
+ * Turns a day's windows into weighted segments, minus breaks, split at hour
+ * boundaries so each segment has one weight.
+ *
+ * @param windows Windows for the day.
+ * @param profile Profile providing breaks and weights.
+ * @return Segments in time order.
+ */
+function buildDaySegments(
+  windows: TimeWindow[],
+  profile: ActivityProfile
+): ActivitySegment[] {
+  const ranges = mergeRanges(
+    windows.map((window) => [parseTime(window.start), parseTime(window.end)])
+  );
+  const breaks = mergeRanges(
+    (profile.breaks ?? []).map((window) => [
+      parseTime(window.start),
+      parseTime(window.end),
+    ])
+  );
+
+  const segments: ActivitySegment[] = [];
+  for (let hour = 0; hour < 24; hour += 1) {
+    const weight = profile.hourlyWeights?.[hour] ?? 1;
+    if (weight <= 0) {
+      continue;
+    }
+    const hourRange: [number, number] = [hour * 3600, (hour + 1) * 3600];
+    for (const range of ranges) {
+      for (const [start, end] of subtractRanges(intersect(range, hourRange), breaks)) {
+        segments.push({ start, end, weight });
+      }
+    }
+  }
+
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parses `HH:mm` into seconds since midnight.
+ *
+ * @param value Time string.
+ * @return Seconds since midnight.
+ */
+function parseTime(value: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+  if (!match || minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) {
+    throw new ValidationError(`Invalid time "${value}"; expected HH:mm.`);
+  }
+  return hours * 3600 + minutes * 60;
+}
+
+/**
+ * Sorts and merges overlapping ranges.
+ *
+ * @param ranges Ranges as `[start, end)` pairs.
+ * @return Disjoint ranges in order.
+ */
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Intersects two ranges.
+ *
+ * @param a First range.
+ * @param b Second range.
+ * @return Overlap, or an empty list.
+ */
+function intersect(
+  a: [number, number],
+  b: [number, number]
+): Array<[number, number]> {
+  const start = Math.max(a[0], b[0]);
+  const end = Math.min(a[1], b[1]);
+  return start < end ? [[start, end]] : [];
+}
+
+/**
+ * Removes disjoint cut-outs from ranges.
+ *
+ * @param ranges Ranges to cut.
+ * @param cuts Disjoint, sorted ranges to remove.
+ * @return Remaining ranges.
+ */
+function subtractRanges(
+  ranges: Array<[number, number]>,
+  cuts: Array<[number, number]>
+): Array<[number, number]> {
+  let remaining = ranges;
+  for (const [cutStart, cutEnd] of cuts) {
+    remaining = remaining.flatMap(([start, end]): Array<[number, number]> => {
+      const pieces: Array<[number, number]> = [];
+      if (start < cutStart) {
+        pieces.push([start, Math.min(end, cutStart)]);
+      }
+      if (end > cutEnd) {
+        pieces.push([Math.max(start, cutEnd), end]);
+      }
+      return pieces;
+    });
+  }
+  return remaining;
+}
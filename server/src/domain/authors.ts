@@ -0,0 +1,143 @@
+import type {
+  AuthorContribution,
+  AuthorsConfig,
+  CommitPlanEntry,
+  TeamMember,
+} from "../../../shared/src/types";
+import { getWeekday } from "../utils/date";
+import { ValidationError } from "../utils/errors";
+import { createRng, randomWeightedIndex } from "../utils/random";
+import { assertSafeIdentity } from "../utils/validation";
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Plan with commit authors assigned.
+ */
+export interface AuthorAssignment {
+  /** Plan entries with `authorIndexes` set and co-author trailers appended. */
+  plan: CommitPlanEntry[];
+  /** Per-member totals. */
+  contributions: AuthorContribution[];
+}
+
+/**
+ * Picks an author for every planned commit from the members allowed on that
+ * weekday, in proportion to their weights, and optionally appends a
+ * `Co-authored-by` trailer naming another member. Draws come from a
+ * dedicated seeded stream, so preview and generation agree.
+ *
+ * @param plan Plan entries with messages.
+ * @param config Team of authors.
+ * @param seed Seed shared by the plan.
+ * @return Updated plan and per-member totals.
+ */
+export function assignAuthors(
+  plan: CommitPlanEntry[],
+  config: AuthorsConfig,
+  seed: string
+): AuthorAssignment {
+  const { members } = config;
+  const coAuthorProbability = config.coAuthorProbability ?? 0;
+  validateMembers(members);
+  if (config.committer) {
+    assertSafeIdentity(config.committer);
+  }
+  if (coAuthorProbability < 0 || coAuthorProbability > 1) {
+    throw new ValidationError("coAuthorProbability must be between 0 and 1.");
+  }
+
+  const weightsByWeekday = WEEKDAY_NAMES.map((_, weekday) =>
+    members.map((member) =>
+      !member.weekdays || member.weekdays.includes(weekday)
+        ? member.weight ?? 1
+        : 0
+    )
+  );
+  const rng = createRng(`${seed}:authors`);
+  const contributions: AuthorContribution[] = members.map((member) => ({
+    name: member.name,
+    email: member.email,
+    commitCount: 0,
+    coAuthoredCount: 0,
+    dates: [],
+  }));
+
+  const assigned = plan.map((entry) => {
+    if (entry.commitCount === 0) {
+      return { ...entry, authorIndexes: [] };
+    }
+    const weekday = getWeekday(entry.date);
+    const weights = weightsByWeekday[weekday];
+    if (!weights.some((weight) => weight > 0)) {
+      throw new ValidationError(
+        `No author commits on ${WEEKDAY_NAMES[weekday]}, but ${entry.date} has planned commits.`
+      );
+    }
+
+    const authorIndexes: number[] = [];
+    const messages = [...(entry.messages ?? [])];
+    for (let i = 0; i < entry.commitCount; i += 1) {
+      const authorIndex = randomWeightedIndex(rng, weights);
+      authorIndexes.push(authorIndex);
+      const contribution = contributions[authorIndex];
+      contribution.commitCount += 1;
+      if (contribution.dates[contribution.dates.length - 1] !== entry.date) {
+        contribution.dates.push(entry.date);
+      }
+
+      if (members.length > 1 && rng() < coAuthorProbability) {
+        const coAuthorWeights = members.map((member, index) =>
+          index === authorIndex ? 0 : member.weight ?? 1
+        );
+        if (coAuthorWeights.some((weight) => weight > 0)) {
+          const coAuthorIndex = randomWeightedIndex(rng, coAuthorWeights);
+          const coAuthor = members[coAuthorIndex];
+          contributions[coAuthorIndex].coAuthoredCount += 1;
+          messages[i] = `${messages[i]}\n\nCo-authored-by: ${coAuthor.name} <${coAuthor.email}>`;
+        }
+      }
+    }
+
+    return { ...entry, messages, authorIndexes };
+  });
+
+  return { plan: assigned, contributions };
+}
+
+/**
+ * Validates team members.
+ *
+ * @param members Team members.
+ */
+function validateMembers(members: TeamMember[]): void {
+  if (members.length === 0) {
+    throw new ValidationError("authors.members must list at least one author.");
+  }
+  for (const member of members) {
+    // Also keeps the Co-authored-by trailers on a single line.
+    assertSafeIdentity(member);
+    if (member.weight !== undefined && !(member.weight >= 0)) {
+      throw new ValidationError(
+        `Author weight must be non-negative for ${member.name}.`
+      );
+    }
+    if (
+      member.weekdays?.some(
+        (weekday) => !Number.isInteger(weekday) || weekday < 0 || weekday > 6
+      )
+    ) {
+      throw new ValidationError(
+        `Weekdays must be integers from 0 (Sunday) to 6 for ${member.name}.`
+      );
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import type {
+  CommitIntensityMap,
+  CommitLevel,
+  DailyCommitCounts,
+  GridPayload,
+} from "../../../shared/src/types";
+import {
+  bucketCount,
+  collectOffGridCounts,
+  computeQuartileThresholds,
+} from "./githubRendering";
+import { flattenGrid } from "./grid";
+
+/** Largest number of distinct candidate counts tried per level. */
+const MAX_CANDIDATES = 20;
+
+/**
+ * Calibrated intensity map and how well it is expected to render.
+ */
+export interface CalibrationResult {
+  /** Fixed per-level counts expressed as a min = max intensity map. */
+  intensityMap: CommitIntensityMap;
+  /** Number of cells still expected to render at another level. */
+  mismatchCount: number;
+}
+
+/**
+ * Solves for per-level commit counts that land each drawn level in the
+ * matching GitHub quartile.
+ *
+ * Only the ordering of counts relative to each other and to existing history
+ * affects the quartiles, so the search tries small counts and counts around
+ * existing daily totals, preferring the fewest mismatching cells and then the
+ * lowest total commit volume.
+ *
+ * @param grid Grid payload.
+ * @param startDate First date in the grid.
+ * @param baselineCounts Optional existing per-day counts.
+ * @return Calibrated intensity map.
+ */
+export function calibrateIntensityMap(
+  grid: GridPayload,
+  startDate: string,
+  baselineCounts?: DailyCommitCounts
+): CalibrationResult {
+  const flattened = flattenGrid(grid, startDate);
+  const cells = flattened.map(({ date, level }) => ({
+    level,
+    existing: baselineCounts?.[date] ?? 0,
+  }));
+  const offGrid = collectOffGridCounts(
+    flattened.map(({ date }) => date),
+    baselineCounts
+  );
+  const candidates = buildCandidates([
+    ...offGrid,
+    ...cells.map((cell) => cell.existing),
+  ]);
+
+  let best: { counts: number[]; mismatches: number; volume: number } | null =
+    null;
+
+  forEachIncreasingCombination(candidates, 4, (counts) => {
+    let volume = 0;
+    const totals = cells.map(({ level, existing }) => {
+      if (level === 0) {
+        return existing;
+      }
+      const target = counts[level - 1];
+      volume += Math.max(0, target - existing);
+      return Math.max(existing, target);
+    });
+
+    if (best && best.mismatches === 0 && volume >= best.volume) {
+      return;
+    }
+
+    const thresholds = computeQuartileThresholds([
+      ...totals.filter((count) => count > 0),
+      ...offGrid,
+    ]);
+    let mismatches = 0;
+    totals.forEach((total, index) => {
+      if (bucketCount(total, thresholds) !== cells[index].level) {
+        mismatches += 1;
+      }
+    });
+
+    if (
+      !best ||
+      mismatches < best.mismatches ||
+      (mismatches === best.mismatches && volume < best.volume)
+    ) {
+      best = { counts: [...counts], mismatches, volume };
+    }
+  });
+
+  const chosen = best ?? { counts: [1, 2, 3, 4], mismatches: 0, volume: 0 };
+  const byLevel = {
+    0: 0,
+    1: chosen.counts[0],
+    2: chosen.counts[1],
+    3: chosen.counts[2],
+    4: chosen.counts[3],
+  } as Record<CommitLevel, number>;
+
+  return {
+    intensityMap: { minByLevel: { ...byLevel }, maxByLevel: { ...byLevel } },
+    mismatchCount: chosen.mismatches,
+  };
+}
+
+/**
+ * Builds candidate commit counts: the smallest counts plus values at and just
+ * above each existing daily total.
+ *
+ * @param existingCounts Existing daily totals.
+ * @return Sorted, de-duplicated candidate counts.
+ */
+function buildCandidates(existingCounts: number[]): number[] {
+  const values = new Set<number>([1, 2, 3, 4]);
+  for (const count of existingCounts) {
+    if (count > 0) {
+      values.add(count);
+      values.add(count + 1);
+    }
+  }
+  const max = Math.max(...values);
+  for (let offset = 1; offset <= 3; offset += 1) {
+    values.add(max + offset);
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length <= MAX_CANDIDATES) {
+    return sorted;
+  }
+
+  const sampled = new Set<number>(sorted.slice(0, 4));
+  const step = (sorted.length - 1) / (MAX_CANDIDATES - 5);
+  for (let i = 0; sampled.size < MAX_CANDIDATES && i * step < sorted.length; i += 1) {
+    sampled.add(sorted[Math.round(i * step)]);
+  }
+  return [...sampled].sort((a, b) => a - b);
+}
+
+/**
+ * Visits every strictly increasing combination of `size` values.
+ *
+ * @param values Sorted candidate values.
+ * @param size Combination size.
+ * @param visit Callback invoked with each combination.
+ */
+function forEachIncreasingCombination(
+  values: number[],
+  size: number,
+  visit: (combination: number[]) => void
+): void {
+  const current: number[] = [];
+  const walk = (start: number) => {
+    if (current.length === size) {
+      visit(current);
+      return;
+    }
+    for (let i = start; i <= values.length - (size - current.length); i += 1) {
+      current.push(values[i]);
+      walk(i + 1);
+      current.pop();
+    }
+  };
+  walk(0);
+}
@@ -0,0 +1,258 @@
+import type {
+  BudgetMode,
+  CommitIntensityMap,
+  CommitLevel,
+} from "../../../shared/src/types";
+import { ValidationError } from "../utils/errors";
+
+/**
+ * Per-day input for budget scaling.
+ */
+export interface BudgetDay {
+  level: CommitLevel;
+  count: number;
+}
+
+/**
+ * Result of fitting a plan to a commit budget.
+ */
+export interface BudgetFit {
+  /** Scaled count per day, in input order. */
+  counts: number[];
+  /** True when the budget was too small to keep every level above the one below it. */
+  levelsMerged: boolean;
+}
+
+/**
+ * Scales per-day counts so their sum meets the budget while every day of a
+ * level keeps more commits than every day of the level below it.
+ *
+ * Counts are first mapped into scaled per-level bands, then nudged one commit
+ * at a time towards their ideal scaled value until the total matches.
+ *
+ * @param days Drawn counts in plan order.
+ * @param intensityMap Ranges the counts were drawn from.
+ * @param total Commit budget.
+ * @param mode Whether the budget is exact or a maximum.
+ * @return Scaled counts.
+ */
+export function fitCommitBudget(
+  days: BudgetDay[],
+  intensityMap: CommitIntensityMap,
+  total: number,
+  mode: BudgetMode
+): BudgetFit {
+  const original = days.map((day) => day.count);
+  const drawnTotal = sum(original);
+  const activeDays = days.filter((day) => day.level > 0).length;
+
+  if (mode === "max" && drawnTotal <= total) {
+    return { counts: original, levelsMerged: false };
+  }
+  if (activeDays === 0) {
+    if (mode === "exact" && total > 0) {
+      throw new ValidationError(
+        "Draw at least one cell to spend an exact commit budget."
+      );
+    }
+    return { counts: original, levelsMerged: false };
+  }
+  if (total < activeDays) {
+    throw new ValidationError(
+      `totalCommitBudget must be at least ${activeDays} (one commit per drawn day).`
+    );
+  }
+
+  const factor = drawnTotal > 0 ? total / drawnTotal : 1;
+  const ideal = days.map((day) =>
+    drawnTotal > 0 ? day.count * factor : day.level > 0 ? total / activeDays : 0
+  );
+  const counts = scaleIntoBands(days, intensityMap, factor);
+  const remaining = nudgeCounts(days, counts, ideal, total - sum(counts), true);
+  if (remaining < 0) {
+    nudgeCounts(days, counts, ideal, remaining, false);
+    return { counts, levelsMerged: true };
+  }
+
+  return { counts, levelsMerged: false };
+}
+
+/**
+ * Maps drawn counts into scaled, strictly increasing per-level bands.
+ *
+ * @param days Drawn counts.
+ * @param intensityMap Original ranges.
+ * @param factor Scale factor.
+ * @return Scaled counts.
+ */
+function scaleIntoBands(
+  days: BudgetDay[],
+  intensityMap: CommitIntensityMap,
+  factor: number
+): number[] {
+  const bands = new Map<CommitLevel, { low: number; high: number }>();
+  let previousHigh = 0;
+  for (const level of [1, 2, 3, 4] as const) {
+    if (!days.some((day) => day.level === level)) {
+      continue;
+    }
+    const low = Math.max(
+      previousHigh + 1,
+      Math.round(intensityMap.minByLevel[level] * factor)
+    );
+    const high = Math.max(low, Math.round(intensityMap.maxByLevel[level] * factor));
+    bands.set(level, { low, high });
+    previousHigh = high;
+  }
+
+  return days.map((day) => {
+    const band = bands.get(day.level);
+    if (!band) {
+      return 0;
+    }
+    const min = intensityMap.minByLevel[day.level];
+    const width = intensityMap.maxByLevel[day.level] - min;
+    const position = width > 0 ? (day.count - min) / width : 0;
+    return band.low + Math.round(position * (band.high - band.low));
+  });
+}
+
+/**
+ * Moves counts one commit at a time towards the budget, preferring days that
+ * are furthest from their ideal scaled value.
+ *
+ * @param days Day levels.
+ * @param counts Counts to adjust in place.
+ * @param ideal Ideal (fractional) scaled counts.
+ * @param delta Commits to add (positive) or remove (negative).
+ * @param strict Whether levels must stay strictly ordered.
+ * @return Delta left once no day can move any further.
+ */
+function nudgeCounts(
+  days: BudgetDay[],
+  counts: number[],
+  ideal: number[],
+  delta: number,
+  strict: boolean
+): number {
+  const direction = Math.sign(delta);
+  let remaining = delta;
+
+  while (remaining !== 0) {
+    const { lowest, highest } = levelBounds(days, counts);
+    const candidates = days
+      .map((day, index) => ({ day, index }))
+      .filter(({ day, index }) => {
+        if (day.level === 0) {
+          return false;
+        }
+        const next = counts[index] + direction;
+        if (next < 1) {
+          return false;
+        }
+        if (!strict) {
+          return true;
+        }
+        if (direction > 0) {
+          const above = nextLevel(day.level, lowest);
+          return above === undefined || next < (lowest.get(above) ?? Infinity);
+        }
+        const below = previousLevel(day.level, highest);
+        return below === undefined || next > (highest.get(below) ?? 0);
+      })
+      .sort(
+        (a, b) =>
+          direction *
+          (counts[a.index] - ideal[a.index] - (counts[b.index] - ideal[b.index]))
+      );
+
+    if (candidates.length === 0) {
+      return remaining;
+    }
+
+    for (const { index } of candidates) {
+      if (remaining === 0) {
+        break;
+      }
+      counts[index] += direction;
+      remaining -= direction;
+    }
+  }
+
+  return remaining;
+}
+
+/**
+ * Returns the lowest and highest count of each level.
+ *
+ * @param days Day levels.
+ * @param counts Current counts.
+ * @return Per-level bounds.
+ */
+function levelBounds(
+  days: BudgetDay[],
+  counts: number[]
+): {
+  lowest: Map<CommitLevel, number>;
+  highest: Map<CommitLevel, number>;
+} {
+  const lowest = new Map<CommitLevel, number>();
+  const highest = new Map<CommitLevel, number>();
+  days.forEach((day, index) => {
+    if (day.level === 0) {
+      return;
+    }
+    const count = counts[index];
+    lowest.set(day.level, Math.min(lowest.get(day.level) ?? Infinity, count));
+    highest.set(day.level, Math.max(highest.get(day.level) ?? 0, count));
+  });
+  return { lowest, highest };
+}
+
+/**
+ * Returns the closest drawn level above the given one.
+ *
+ * @param level Level.
+ * @param present Levels present in the plan.
+ * @return Next level, or undefined when it is the highest.
+ */
+function nextLevel(
+  level: CommitLevel,
+  present: Map<CommitLevel, number>
+): CommitLevel | undefined {
+  for (let candidate = level + 1; candidate <= 4; candidate += 1) {
+    if (present.has(candidate as CommitLevel)) {
+      return candidate as CommitLevel;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the closest drawn level below the given one.
+ *
+ * @param level Level.
+ * @param present Levels present in the plan.
+ * @return Previous level, or undefined when it is the lowest.
+ */
+function previousLevel(
+  level: CommitLevel,
+  present: Map<CommitLevel, number>
+): CommitLevel | undefined {
+  for (let candidate = level - 1; candidate >= 1; candidate -= 1) {
+    if (present.has(candidate as CommitLevel)) {
+      return candidate as CommitLevel;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Sums a list of numbers.
+ *
+ * @param values Values.
+ * @return Sum.
+ */
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,229 @@
+import type {
+  CommitMessageConfig,
+  CommitPlanEntry,
+} from "../../../shared/src/types";
+import { getWeekday } from "../utils/date";
+import { ValidationError } from "../utils/errors";
+import { createRng, randomInt, randomWeightedIndex } from "../utils/random";
+
+/** Template used when no message style is requested. */
+export const DEFAULT_MESSAGE_TEMPLATE = "chore(history): {date} #{index}";
+
+const TEMPLATE_PLACEHOLDERS = [
+  "date",
+  "index",
+  "count",
+  "level",
+  "weekday",
+  "number",
+];
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const DEFAULT_TYPE_WEIGHTS: Record<string, number> = {
+  feat: 3,
+  fix: 3,
+  refactor: 2,
+  chore: 2,
+  docs: 1,
+  test: 1,
+};
+
+const DEFAULT_SCOPE_WEIGHTS: Record<string, number> = {
+  "": 4,
+  core: 2,
+  api: 1,
+  ui: 1,
+  build: 1,
+};
+
+const TYPE_VERBS: Record<string, string[]> = {
+  feat: ["add", "support", "introduce", "allow configuring"],
+  fix: ["handle", "correct", "guard against errors in", "fix"],
+  refactor: ["simplify", "extract", "restructure", "clean up"],
+  chore: ["tidy", "update", "bump dependencies for", "reorganize"],
+  docs: ["document", "clarify", "add examples for"],
+  test: ["cover", "add tests for", "stabilize tests for"],
+};
+
+const FALLBACK_VERBS = ["update", "adjust", "rework"];
+
+const SUBJECTS = [
+  "config parsing",
+  "error messages",
+  "date handling",
+  "the cache",
+  "pagination",
+  "retry logic",
+  "input validation",
+  "logging",
+  "CLI output",
+  "sorting edge cases",
+  "the release script",
+  "empty states",
+];
+
+const TYPE_REGEX = /^[a-z][a-z0-9-]*$/;
+const SCOPE_REGEX = /^[a-z0-9-]*$/;
+
+/**
+ * Context available to a single commit message.
+ */
+interface MessageContext {
+  date: string;
+  index: number;
+  count: number;
+  level: number;
+  weekday: string;
+  number: number;
+}
+
+/**
+ * Attaches a message to every planned commit. Messages come from a dedicated
+ * seeded stream, so they match between preview and generation.
+ *
+ * @param plan Commit plan entries.
+ * @param config Message style; the default template when omitted.
+ * @param seed Seed for sampled styles.
+ * @return Plan entries with `messages` set.
+ */
+export function assignCommitMessages(
+  plan: CommitPlanEntry[],
+  config: CommitMessageConfig | undefined,
+  seed: string
+): CommitPlanEntry[] {
+  const buildMessage = createMessageBuilder(
+    config ?? { style: "template", template: DEFAULT_MESSAGE_TEMPLATE },
+    createRng(`${seed}:messages`)
+  );
+  let number = 0;
+
+  return plan.map((entry) => {
+    const weekday = WEEKDAY_NAMES[getWeekday(entry.date)];
+    const messages = Array.from({ length: entry.commitCount }, (_, i) => {
+      number += 1;
+      return buildMessage({
+        date: entry.date,
+        index: i + 1,
+        count: entry.commitCount,
+        level: entry.level,
+        weekday,
+        number,
+      });
+    });
+    return { ...entry, messages };
+  });
+}
+
+/**
+ * Validates a message style and returns a builder for it.
+ *
+ * @param config Message style.
+ * @param rng Seeded random generator.
+ * @return Function building one message.
+ */
+function createMessageBuilder(
+  config: CommitMessageConfig,
+  rng: () => number
+): (context: MessageContext) => string {
+  switch (config.style) {
+    case "template": {
+      assertValidTemplate(config.template);
+      return (context) =>
+        config.template.replace(/\{(\w+)\}/g, (_, name: string) =>
+          String(context[name as keyof MessageContext])
+        );
+    }
+    case "list": {
+      const messages = config.messages.filter((message) => message.trim());
+      if (messages.length === 0) {
+        throw new ValidationError("Commit message list must not be empty.");
+      }
+      return () => messages[randomInt(rng, 0, messages.length - 1)];
+    }
+    case "conventional": {
+      const pickType = createWeightedPicker(
+        config.types ?? DEFAULT_TYPE_WEIGHTS,
+        TYPE_REGEX,
+        "types"
+      );
+      const pickScope = createWeightedPicker(
+        config.scopes ?? DEFAULT_SCOPE_WEIGHTS,
+        SCOPE_REGEX,
+        "scopes"
+      );
+      return () => {
+        const type = pickType(rng);
+        const scope = pickScope(rng);
+        const verbs = TYPE_VERBS[type] ?? FALLBACK_VERBS;
+        const verb = verbs[randomInt(rng, 0, verbs.length - 1)];
+        const subject = SUBJECTS[randomInt(rng, 0, SUBJECTS.length - 1)];
+        return `${type}${scope ? `(${scope})` : ""}: ${verb} ${subject}`;
+      };
+    }
+  }
+}
+
+/**
+ * Ensures a template is non-empty and only uses known placeholders.
+ *
+ * @param template Message template.
+ */
+function assertValidTemplate(template: string): void {
+  if (!template.trim()) {
+    throw new ValidationError("Commit message template must not be empty.");
+  }
+  for (const [, name] of template.matchAll(/\{(\w+)\}/g)) {
+    if (!TEMPLATE_PLACEHOLDERS.includes(name)) {
+      throw new ValidationError(
+        `Unknown commit message placeholder {${name}}. Use ${TEMPLATE_PLACEHOLDERS.map(
+          (placeholder) => `{${placeholder}}`
+        ).join(", ")}.`
+      );
+    }
+  }
+}
+
+/**
+ * Validates a weight table and returns a picker over its keys.
+ *
+ * @param weights Relative weight per key.
+ * @param keyPattern Allowed key format.
+ * @param label Field name for error messages.
+ * @return Function picking a key.
+ */
+function createWeightedPicker(
+  weights: Record<string, number>,
+  keyPattern: RegExp,
+  label: string
+): (rng: () => number) => string {
+  const entries = Object.entries(weights);
+  for (const [key, weight] of entries) {
+    if (!keyPattern.test(key)) {
+      throw new ValidationError(`Invalid commit message ${label} key: ${key}.`);
+    }
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new ValidationError(
+        `Commit message ${label} weights must be non-negative numbers.`
+      );
+    }
+  }
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) {
+    throw new ValidationError(
+      `Commit message ${label} need at least one positive weight.`
+    );
+  }
+
+  const keys = entries.map(([key]) => key);
+  const values = entries.map(([, weight]) => weight);
+  return (rng) => keys[randomWeightedIndex(rng, values)];
+}
@@ -1,17 +1,61 @@
 import type {
+  BudgetMode,
+  CommitDistribution,
   CommitIntensityMap,
   CommitPlanEntry,
   CommitPlanSummary,
   CommitLevel,
+  DailyCommitCounts,
   DateRange,
   GridPayload,
 } from "../../../shared/src/types";
-import { flattenGrid } from "./grid";
+import { fitCommitBudget } from "./commitBudget";
+import { createCountSampler, CountSampler } from "./distribution";
+import { flattenGrid, getGridDayCount, validateGrid } from "./grid";
 import { addDays, assertValidIsoDate, formatIsoDate } from "../utils/date";
 import { ValidationError } from "../utils/errors";
-import { createRng, randomInt } from "../utils/random";
+import { createRng } from "../utils/random";
 
-const EXPECTED_GRID_DAYS = 7 * 51;
+/**
+ * Optional inputs that refine how a commit plan is built.
+ */
+export interface CommitPlanOptions {
+  /** Optional seed for deterministic randomness. */
+  randomSeed?: string;
+  /**
+   * Existing commits per day. When provided, each entry only plans the
+   * commits still missing to reach its level.
+   */
+  baselineCounts?: DailyCommitCounts;
+  /** How counts are drawn inside each level's range; uniform by default. */
+  distribution?: CommitDistribution;
+  /** Optional total commit budget. Not supported together with a baseline. */
+  totalCommitBudget?: number;
+  /** Whether the budget is exact or a maximum; defaults to `max`. */
+  budgetMode?: BudgetMode;
+}
+
+/**
+ * A day whose existing commits already exceed the range for its level.
+ */
+export interface OverTargetDay {
+  date: string;
+  level: CommitLevel;
+  existingCount: number;
+  maxCount: number;
+}
+
+/**
+ * Output of the commit planner.
+ */
+export interface CommitPlanBuild {
+  plan: CommitPlanEntry[];
+  summary: CommitPlanSummary;
+  /** Days that cannot reach their level because they already have too many commits. */
+  overTargetDays: OverTargetDay[];
+  /** True when the budget forced neighbouring levels to share commit counts. */
+  levelsMerged: boolean;
+}
 
 /**
  * Builds a commit plan from the grid definition.
@@ -19,41 +63,114 @@ const EXPECTED_GRID_DAYS = 7 * 51;
  * @param grid Grid payload.
  * @param dateRange Date range for the grid.
  * @param intensityMap Commit intensity ranges.
- * @param randomSeed Optional seed for deterministic randomness.
- * @return Commit plan and summary.
+ * @param options Optional seed, baseline history, distribution and budget.
+ * @return Commit plan, summary, over-target days and budget outcome.
  */
 export function buildCommitPlan(
   grid: GridPayload,
   dateRange: DateRange,
   intensityMap: CommitIntensityMap,
-  randomSeed?: string
-): { plan: CommitPlanEntry[]; summary: CommitPlanSummary } {
+  options: CommitPlanOptions = {}
+): CommitPlanBuild {
+  const { randomSeed, baselineCounts, distribution, totalCommitBudget } =
+    options;
   assertValidIsoDate(dateRange.startDate, "startDate");
   assertValidIsoDate(dateRange.endDate, "endDate");
+  validateGrid(grid);
 
   const expectedEndDate = formatIsoDate(
-    addDays(dateRange.startDate, EXPECTED_GRID_DAYS - 1)
+    addDays(dateRange.startDate, getGridDayCount(grid) - 1)
   );
 
   if (dateRange.endDate !== expectedEndDate) {
     throw new ValidationError(
-      `endDate must be ${expectedEndDate} for a 7x51 grid.`
+      `endDate must be ${expectedEndDate} for a ${grid.rows}x${grid.cols} grid.`
+    );
+  }
+
+  if (totalCommitBudget !== undefined && baselineCounts) {
+    throw new ValidationError(
+      "totalCommitBudget cannot be combined with a baseline."
     );
   }
 
   const seed = randomSeed ?? `${dateRange.startDate}:${dateRange.endDate}`;
   const rng = createRng(seed);
+  const sampler = createCountSampler(distribution, rng);
   const flattened = flattenGrid(grid, dateRange.startDate);
 
-  const plan: CommitPlanEntry[] = flattened.map(({ date, level }) => ({
-    date,
-    level,
-    commitCount: getCommitCountForLevel(level, intensityMap, rng),
-  }));
+  const targetCounts = flattened.map(({ level }) =>
+    getCommitCountForLevel(level, intensityMap, sampler)
+  );
+  const budgetFit =
+    totalCommitBudget === undefined
+      ? undefined
+      : fitCommitBudget(
+          flattened.map(({ level }, index) => ({
+            level,
+            count: targetCounts[index],
+          })),
+          intensityMap,
+          totalCommitBudget,
+          options.budgetMode ?? "max"
+        );
+  const drawnCounts = budgetFit?.counts ?? targetCounts;
+
+  const overTargetDays: OverTargetDay[] = [];
+  const plan: CommitPlanEntry[] = flattened.map(({ date, level }, index) => {
+    const targetCount = drawnCounts[index];
+    if (!baselineCounts) {
+      return { date, level, commitCount: targetCount };
+    }
+
+    const existingCount = baselineCounts[date] ?? 0;
+    const maxCount = intensityMap.maxByLevel[level];
+    if (existingCount > maxCount) {
+      overTargetDays.push({ date, level, existingCount, maxCount });
+    }
+
+    return {
+      date,
+      level,
+      commitCount: getTopUpCount(
+        targetCount,
+        existingCount,
+        intensityMap.minByLevel[level]
+      ),
+      existingCount,
+    };
+  });
 
   const summary = summarizePlan(plan, dateRange);
 
-  return { plan, summary };
+  return {
+    plan,
+    summary,
+    overTargetDays,
+    levelsMerged: budgetFit?.levelsMerged ?? false,
+  };
+}
+
+/**
+ * Returns how many commits must be added to an existing day.
+ *
+ * Days already inside their level's range need nothing; otherwise the day is
+ * filled up to the randomly chosen target.
+ *
+ * @param targetCount Target commit count drawn for the level.
+ * @param existingCount Commits already present on the day.
+ * @param minCount Minimum commits for the level.
+ * @return Number of commits to add.
+ */
+function getTopUpCount(
+  targetCount: number,
+  existingCount: number,
+  minCount: number
+): number {
+  if (existingCount >= minCount) {
+    return 0;
+  }
+  return Math.max(0, targetCount - existingCount);
 }
 
 /**
@@ -61,13 +178,13 @@ export function buildCommitPlan(
  *
  * @param level Intensity level.
  * @param intensityMap Range mapping.
- * @param rng Random generator.
+ * @param sampler Count sampler for the selected distribution.
  * @return Commit count.
  */
 function getCommitCountForLevel(
   level: CommitLevel,
   intensityMap: CommitIntensityMap,
-  rng: () => number
+  sampler: CountSampler
 ): number {
   const min = intensityMap.minByLevel[level];
   const max = intensityMap.maxByLevel[level];
@@ -86,7 +203,7 @@ function getCommitCountForLevel(
     );
   }
 
-  return randomInt(rng, min, max);
+  return sampler(level, min, max);
 }
 
 /**
@@ -102,10 +219,19 @@ function summarizePlan(
 ): CommitPlanSummary {
   const totalCommits = plan.reduce((sum, entry) => sum + entry.commitCount, 0);
   const activeDays = plan.filter((entry) => entry.commitCount > 0).length;
+  const hasBaseline = plan.some((entry) => entry.existingCount !== undefined);
 
   return {
     totalCommits,
     activeDays,
+    ...(hasBaseline
+      ? {
+          existingCommits: plan.reduce(
+            (sum, entry) => sum + (entry.existingCount ?? 0),
+            0
+          ),
+        }
+      : {}),
     firstGridDate: plan[0]?.date ?? requestedRange.startDate,
     lastGridDate: plan[plan.length - 1]?.date ?? requestedRange.endDate,
     requestedRange,
@@ -0,0 +1,161 @@
+import type {
+  ActivityProfile,
+  ActivityProfileName,
+  CommitPlanEntry,
+} from "../../../shared/src/types";
+import { formatGitTimestamp, getWeekday } from "../utils/date";
+import { createRng } from "../utils/random";
+import { assertValidTimeZone, resolveZonedTime } from "../utils/timeZone";
+import { ActivitySegment, resolveActivitySegments } from "./activityProfiles";
+
+/**
+ * Inputs for scheduling commit times.
+ */
+export interface CommitTimeOptions {
+  /** Optional seed; defaults to the plan's date bounds. */
+  randomSeed?: string;
+  /** IANA time zone the commits are authored in. */
+  timeZone: string;
+  /** Activity profile name or definition; `daytime` when omitted. */
+  activityProfile?: ActivityProfileName | ActivityProfile;
+}
+
+/**
+ * A planned commit time that does not exist on the wall clock because of a
+ * DST transition.
+ */
+export interface DstGapTime {
+  /** Plan date. */
+  date: string;
+  /** Wall-clock time that was requested (`HH:mm:ss`). */
+  localTime: string;
+  /** Timestamp the commit is shifted to. */
+  timestamp: string;
+}
+
+/**
+ * Commit timestamps for a plan.
+ */
+export interface CommitTimeSchedule {
+  /** Git timestamps per plan entry, in plan order and chronological within a day. */
+  timestamps: string[][];
+  /** Planned times that fell into a DST gap. */
+  dstGaps: DstGapTime[];
+}
+
+/**
+ * Schedules commit timestamps for every plan entry in a time zone.
+ *
+ * Times are drawn from a dedicated seeded stream, so preview and generation
+ * see the same schedule for the same seed.
+ *
+ * @param plan Commit plan entries.
+ * @param options Seed, time zone and activity profile.
+ * @return Timestamps and DST gap hits.
+ */
+export function scheduleCommitTimes(
+  plan: CommitPlanEntry[],
+  options: CommitTimeOptions
+): CommitTimeSchedule {
+  const { randomSeed, timeZone } = options;
+  assertValidTimeZone(timeZone);
+  const segmentsByWeekday = resolveActivitySegments(options.activityProfile);
+  const seed =
+    randomSeed ?? `${plan[0]?.date ?? ""}:${plan[plan.length - 1]?.date ?? ""}`;
+  const rng = createRng(`${seed}:times`);
+  const dstGaps: DstGapTime[] = [];
+
+  const timestamps = plan.map((entry) =>
+    buildSecondsOfDay(
+      entry.commitCount,
+      segmentsByWeekday[getWeekday(entry.date)],
+      rng
+    )
+      .map((secondsOfDay) => ({
+        secondsOfDay,
+        zoned: resolveZonedTime(entry.date, secondsOfDay, timeZone),
+      }))
+      // Gap times move forward by the gap and can pass later wall-clock
+      // times, so the day is ordered by instant.
+      .sort(
+        (a, b) => a.zoned.instant.getTime() - b.zoned.instant.getTime()
+      )
+      .map(({ secondsOfDay, zoned }) => {
+        const timestamp = formatGitTimestamp(zoned.instant, zoned.offsetMinutes);
+        if (zoned.inGap) {
+          dstGaps.push({
+            date: entry.date,
+            localTime: formatSecondsOfDay(secondsOfDay),
+            timestamp,
+          });
+        }
+        return timestamp;
+      })
+  );
+
+  return { timestamps, dstGaps };
+}
+
+/**
+ * Builds ordered wall-clock offsets from a day's activity segments.
+ *
+ * The day's total weight is divided into one equal slice per commit and each
+ * slice gets a seeded point, mapped back to a time through the cumulative
+ * weight. Slices are ordered, so the offsets come out ascending.
+ *
+ * @param count Number of commits.
+ * @param segments Active segments for the weekday.
+ * @param rng Random generator.
+ * @return Seconds since local midnight, ascending.
+ */
+function buildSecondsOfDay(
+  count: number,
+  segments: ActivitySegment[],
+  rng: () => number
+): number[] {
+  if (count <= 0) {
+    return [];
+  }
+
+  const totalMass = segments.reduce(
+    (sum, segment) => sum + (segment.end - segment.start) * segment.weight,
+    0
+  );
+
+  const offsets: number[] = [];
+  let segmentIndex = 0;
+  let massBefore = 0;
+  for (let i = 0; i < count; i += 1) {
+    const target = ((i + rng()) / count) * totalMass;
+    let segment = segments[segmentIndex];
+    let segmentMass = (segment.end - segment.start) * segment.weight;
+    while (
+      massBefore + segmentMass <= target &&
+      segmentIndex < segments.length - 1
+    ) {
+      massBefore += segmentMass;
+      segmentIndex += 1;
+      segment = segments[segmentIndex];
+      segmentMass = (segment.end - segment.start) * segment.weight;
+    }
+    const seconds = segment.start + (target - massBefore) / segment.weight;
+    offsets.push(Math.min(segment.end - 1, Math.floor(seconds)));
+  }
+
+  return offsets;
+}
+
+/**
+ * Formats seconds since midnight as `HH:mm:ss`.
+ *
+ * @param secondsOfDay Seconds since midnight.
+ * @return Formatted time.
+ */
+function formatSecondsOfDay(secondsOfDay: number): string {
+  const hours = Math.floor(secondsOfDay / 3600);
+  const minutes = Math.floor((secondsOfDay % 3600) / 60);
+  const seconds = secondsOfDay % 60;
+  return [hours, minutes, seconds]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+}
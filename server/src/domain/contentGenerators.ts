@@ -0,0 +1,353 @@
+import type { ContentGeneratorConfig } from "../../../shared/src/types";
+import { ValidationError } from "../utils/errors";
+import { randomInt } from "../utils/random";
+
+/** Initial contents of the dump file. */
+export const DUMP_FILE_HEADER = [
+  "# Draw-on-Git-History",
+  "# This file is mutated to create commit activity.",
+  "",
+].join("\n");
+
+const DEFAULT_CONTENT_PATHS: Record<ContentGeneratorConfig["name"], string> = {
+  dump: "dump.txt",
+  journal: "journal",
+  changelog: "changelog.json",
+  corpus: "corpus",
+};
+
+const SEMVER_REGEX = /^(\d+)\.(\d+)\.(\d+)$/;
+
+const WORK_VERBS = [
+  "Refactored",
+  "Cleaned up",
+  "Documented",
+  "Tightened",
+  "Simplified",
+  "Reviewed",
+  "Sketched out",
+  "Profiled",
+];
+
+const WORK_AREAS = [
+  "the parser",
+  "the build scripts",
+  "the README",
+  "the test fixtures",
+  "the CLI flags",
+  "the config loader",
+  "the cache layer",
+  "the API client",
+  "logging",
+  "the release checklist",
+];
+
+const WORK_DETAILS = [
+  "edge cases",
+  "error messages",
+  "naming",
+  "the happy path",
+  "startup time",
+  "input validation",
+  "old TODOs",
+  "type signatures",
+];
+
+const CHANGE_TYPES = ["added", "changed", "fixed", "removed"];
+
+/**
+ * Full contents of one file written by a commit.
+ */
+export interface FileChange {
+  /** Repository-relative path. */
+  path: string;
+  /** Complete file contents after the commit. */
+  contents: string;
+}
+
+/**
+ * The commit a generator produces changes for.
+ */
+export interface ContentCommit {
+  /** Date in `YYYY-MM-DD` format. */
+  date: string;
+  /** 1-based commit index within the day. */
+  commitIndex: number;
+  /** Git timestamp of the commit. */
+  timestamp: string;
+}
+
+/**
+ * Produces the file changes of consecutive commits. Generators are stateful
+ * and must be called once per commit, in commit order.
+ */
+export interface ContentGenerator {
+  /**
+   * Returns the files changed by the next commit.
+   *
+   * @param commit Commit being written.
+   * @return Changed files with their full contents.
+   */
+  next(commit: ContentCommit): FileChange[];
+}
+
+/**
+ * A text file replayed by the `corpus` generator.
+ */
+export interface CorpusFile {
+  /** Path relative to the corpus folder. */
+  path: string;
+  /** File contents. */
+  contents: string;
+}
+
+/**
+ * Inputs shared by all generators.
+ */
+export interface ContentGeneratorContext {
+  /** Seeded random generator. */
+  rng: () => number;
+  /** Repository-relative file or folder the generator writes to. */
+  contentPath: string;
+  /** Number of commits the generator will be asked for. */
+  totalCommits: number;
+  /** Source files for the `corpus` generator. */
+  corpusFiles?: CorpusFile[];
+}
+
+/**
+ * Returns the path a generator writes to when no content path is requested.
+ *
+ * @param config Generator selection.
+ * @param contentPath Requested content path, if any.
+ * @return Repository-relative file or folder path.
+ */
+export function resolveContentPath(
+  config: ContentGeneratorConfig,
+  contentPath?: string
+): string {
+  return contentPath ?? DEFAULT_CONTENT_PATHS[config.name];
+}
+
+/**
+ * Creates the generator selected by a request.
+ *
+ * @param config Generator selection and options.
+ * @param context Seeded inputs.
+ * @return Content generator.
+ */
+export function createContentGenerator(
+  config: ContentGeneratorConfig,
+  context: ContentGeneratorContext
+): ContentGenerator {
+  switch (config.name) {
+    case "dump":
+      return createDumpGenerator(context);
+    case "journal":
+      return createJournalGenerator(context, config.rotation ?? "monthly");
+    case "changelog":
+      return createChangelogGenerator(context, config.startVersion ?? "0.1.0");
+    case "corpus":
+      return createCorpusGenerator(context);
+  }
+}
+
+/**
+ * Appends `timestamp :: index :: date::index::token` lines to one file.
+ *
+ * @param context Generator inputs.
+ * @return Content generator.
+ */
+function createDumpGenerator(context: ContentGeneratorContext): ContentGenerator {
+  const { rng, contentPath } = context;
+  let contents = DUMP_FILE_HEADER;
+
+  return {
+    next({ date, commitIndex, timestamp }) {
+      const token = generateToken(rng, 16);
+      contents += `${timestamp} :: ${commitIndex} :: ${date}::${commitIndex}::${token}\n`;
+      return [{ path: contentPath, contents }];
+    },
+  };
+}
+
+/**
+ * Appends a dated markdown entry to one journal file per period.
+ *
+ * @param context Generator inputs.
+ * @param rotation Period covered by each file.
+ * @return Content generator.
+ */
+function createJournalGenerator(
+  context: ContentGeneratorContext,
+  rotation: "daily" | "monthly" | "yearly"
+): ContentGenerator {
+  const { rng, contentPath } = context;
+  const keyLength = { daily: 10, monthly: 7, yearly: 4 }[rotation];
+  const files = new Map<string, string>();
+
+  return {
+    next({ date, timestamp }) {
+      const period = date.slice(0, keyLength);
+      const filePath = `${contentPath}/${period}.md`;
+      const heading = timestamp.slice(0, 16).replace("T", " ");
+      const contents =
+        (files.get(filePath) ?? `# Journal ${period}\n`) +
+        `\n## ${heading}\n\n${buildSentence(rng)}\n`;
+      files.set(filePath, contents);
+      return [{ path: filePath, contents }];
+    },
+  };
+}
+
+/**
+ * Adds a release entry to a JSON changelog, newest first, bumping the
+ * version by a seeded patch, minor or major step.
+ *
+ * @param context Generator inputs.
+ * @param startVersion Version before the first entry.
+ * @return Content generator.
+ */
+function createChangelogGenerator(
+  context: ContentGeneratorContext,
+  startVersion: string
+): ContentGenerator {
+  const { rng, contentPath } = context;
+  const match = SEMVER_REGEX.exec(startVersion);
+  if (!match) {
+    throw new ValidationError(
+      `startVersion must be major.minor.patch, got ${startVersion}.`
+    );
+  }
+  let [major, minor, patch] = match.slice(1).map(Number);
+  const entries: Array<Record<string, string>> = [];
+
+  return {
+    next({ date }) {
+      const roll = rng();
+      if (roll < 0.03) {
+        major += 1;
+        minor = 0;
+        patch = 0;
+      } else if (roll < 0.2) {
+        minor += 1;
+        patch = 0;
+      } else {
+        patch += 1;
+      }
+      entries.unshift({
+        version: `${major}.${minor}.${patch}`,
+        date,
+        type: pick(rng, CHANGE_TYPES),
+        summary: buildSentence(rng),
+      });
+      return [
+        { path: contentPath, contents: `${JSON.stringify({ entries }, null, 2)}\n` },
+      ];
+    },
+  };
+}
+
+/**
+ * Replays corpus files line by line. Files are shuffled by the seed and
+ * concatenated; every commit reveals an equal share of the lines, so the
+ * last commit leaves each file identical to its source.
+ *
+ * @param context Generator inputs.
+ * @return Content generator.
+ */
+function createCorpusGenerator(
+  context: ContentGeneratorContext
+): ContentGenerator {
+  const { rng, contentPath, totalCommits } = context;
+  const files = shuffle(rng, context.corpusFiles ?? []);
+  const lines = files.flatMap((file, fileIndex) =>
+    (file.contents.match(/[^\n]*\n|[^\n]+$/g) ?? []).map((text) => ({
+      fileIndex,
+      text,
+    }))
+  );
+  if (lines.length < totalCommits) {
+    throw new ValidationError(
+      `Corpus has ${lines.length} lines but the plan needs at least ${totalCommits}.`
+    );
+  }
+
+  const revealed = files.map(() => "");
+  let commitNumber = 0;
+
+  return {
+    next() {
+      const from = Math.floor((commitNumber * lines.length) / totalCommits);
+      const to = Math.floor(((commitNumber + 1) * lines.length) / totalCommits);
+      commitNumber += 1;
+
+      const touched = new Set<number>();
+      for (const line of lines.slice(from, to)) {
+        revealed[line.fileIndex] += line.text;
+        touched.add(line.fileIndex);
+      }
+      return [...touched].map((fileIndex) => ({
+        path: `${contentPath}/${files[fileIndex].path}`,
+        contents: revealed[fileIndex],
+      }));
+    },
+  };
+}
+
+/**
+ * Builds a short work-log sentence.
+ *
+ * @param rng Random generator.
+ * @return Sentence ending with a period.
+ */
+function buildSentence(rng: () => number): string {
+  return `${pick(rng, WORK_VERBS)} ${pick(rng, WORK_AREAS)}, focusing on ${pick(
+    rng,
+    WORK_DETAILS
+  )}.`;
+}
+
+/**
+ * Picks a random element.
+ *
+ * @param rng Random generator.
+ * @param values Candidate values.
+ * @return Chosen value.
+ */
+function pick<T>(rng: () => number, values: T[]): T {
+  return values[randomInt(rng, 0, values.length - 1)];
+}
+
+/**
+ * Returns a shuffled copy (Fisher-Yates).
+ *
+ * @param rng Random generator.
+ * @param values Values to shuffle.
+ * @return Shuffled copy.
+ */
+function shuffle<T>(rng: () => number, values: T[]): T[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = randomInt(rng, 0, i);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Generates an alphanumeric token.
+ *
+ * @param rng Random generator.
+ * @param length Token length.
+ * @return Token string.
+ */
+function generateToken(rng: () => number, length: number): string {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
+  let result = "";
+  for (let i = 0; i < length; i += 1) {
+    const index = randomInt(rng, 0, alphabet.length - 1);
+    result += alphabet[index];
+  }
+  return result;
+}
@@ -0,0 +1,139 @@
+import type {
+  CommitDistribution,
+  CommitLevel,
+} from "../../../shared/src/types";
+import { ValidationError } from "../utils/errors";
+import { randomInt } from "../utils/random";
+
+/**
+ * Picks a commit count inside `[min, max]` for a day at the given level.
+ */
+export type CountSampler = (
+  level: CommitLevel,
+  min: number,
+  max: number
+) => number;
+
+const DEFAULT_MEAN = 0.5;
+const DEFAULT_SPREAD = 0.25;
+const DEFAULT_MAX_STEP = 1;
+
+/**
+ * Creates a sampler for the requested distribution. Samplers are called in
+ * date order and only draw from `rng`, so plans stay reproducible per seed.
+ *
+ * @param distribution Distribution settings; uniform when omitted.
+ * @param rng Random generator.
+ * @return Count sampler.
+ */
+export function createCountSampler(
+  distribution: CommitDistribution | undefined,
+  rng: () => number
+): CountSampler {
+  if (distribution) {
+    validateDistribution(distribution);
+  }
+
+  switch (distribution?.strategy ?? "uniform") {
+    case "fixed":
+      return (level, min, max) => {
+        const value =
+          distribution?.fixedByLevel?.[level] ?? Math.round((min + max) / 2);
+        if (value < min || value > max) {
+          throw new ValidationError(
+            `Fixed count for level ${level} must be between ${min} and ${max}.`
+          );
+        }
+        return value;
+      };
+    case "triangular": {
+      const mean = distribution?.mean ?? DEFAULT_MEAN;
+      return (_level, min, max) =>
+        toCount(sampleTriangular(rng, mean), min, max);
+    }
+    case "gaussian": {
+      const mean = distribution?.mean ?? DEFAULT_MEAN;
+      const spread = distribution?.spread ?? DEFAULT_SPREAD;
+      return (_level, min, max) => {
+        const value = min + (mean + sampleNormal(rng) * spread) * (max - min);
+        return Math.min(max, Math.max(min, Math.round(value)));
+      };
+    }
+    case "smooth": {
+      const maxStep = distribution?.maxStep ?? DEFAULT_MAX_STEP;
+      const previousByLevel = new Map<CommitLevel, number>();
+      return (level, min, max) => {
+        const previous = previousByLevel.get(level);
+        const value =
+          previous === undefined
+            ? randomInt(rng, min, max)
+            : randomInt(
+                rng,
+                Math.max(min, previous - maxStep),
+                Math.min(max, previous + maxStep)
+              );
+        previousByLevel.set(level, value);
+        return value;
+      };
+    }
+    default:
+      return (_level, min, max) => randomInt(rng, min, max);
+  }
+}
+
+/**
+ * Validates distribution parameters.
+ *
+ * @param distribution Distribution settings.
+ */
+function validateDistribution(distribution: CommitDistribution): void {
+  const { mean, spread, maxStep } = distribution;
+  if (mean !== undefined && (mean < 0 || mean > 1)) {
+    throw new ValidationError("Distribution mean must be between 0 and 1.");
+  }
+  if (spread !== undefined && spread <= 0) {
+    throw new ValidationError("Distribution spread must be greater than 0.");
+  }
+  if (maxStep !== undefined && (!Number.isInteger(maxStep) || maxStep < 0)) {
+    throw new ValidationError("Distribution maxStep must be a non-negative integer.");
+  }
+}
+
+/**
+ * Maps a value in `[0, 1]` onto equally wide integer buckets in `[min, max]`.
+ *
+ * @param position Position inside the range.
+ * @param min Minimum count.
+ * @param max Maximum count.
+ * @return Commit count.
+ */
+function toCount(position: number, min: number, max: number): number {
+  return Math.min(max, min + Math.floor(position * (max - min + 1)));
+}
+
+/**
+ * Draws from a triangular distribution on `[0, 1]` with the given mode.
+ *
+ * @param rng Random generator.
+ * @param mode Peak position.
+ * @return Sample in `[0, 1]`.
+ */
+function sampleTriangular(rng: () => number, mode: number): number {
+  const u = rng();
+  if (u < mode) {
+    return Math.sqrt(u * mode);
+  }
+  return 1 - Math.sqrt((1 - u) * (1 - mode));
+}
+
+/**
+ * Draws a standard normal sample with the Box-Muller transform.
+ *
+ * @param rng Random generator.
+ * @return Sample with mean 0 and standard deviation 1.
+ */
+function sampleNormal(rng: () => number): number {
+  const u1 = 1 - rng();
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
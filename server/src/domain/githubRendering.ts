@@ -0,0 +1,155 @@
+import type {
+  CommitLevel,
+  CommitPlanEntry,
+  DailyCommitCounts,
+  LevelMismatch,
+  PredictedLevels,
+} from "../../../shared/src/types";
+import { diffInDays } from "../utils/date";
+import { GRID_ROWS } from "./grid";
+
+/**
+ * Days of history GitHub considers when shading the contribution calendar.
+ */
+const RENDER_WINDOW_DAYS = 366;
+
+/**
+ * Predicts how GitHub will shade each planned day.
+ *
+ * GitHub buckets non-zero daily totals by the quartiles of all non-zero days
+ * in the visible year, so the rendered level depends on the whole history
+ * rather than on the drawn level alone.
+ *
+ * @param plan Commit plan entries in grid order (column by column).
+ * @param baselineCounts Optional existing per-day counts.
+ * @return Predicted levels, thresholds and mismatching cells.
+ */
+export function simulateGithubLevels(
+  plan: CommitPlanEntry[],
+  baselineCounts?: DailyCommitCounts
+): PredictedLevels {
+  const totals = plan.map(
+    (entry) =>
+      entry.commitCount + (entry.existingCount ?? baselineCounts?.[entry.date] ?? 0)
+  );
+
+  const population = [
+    ...totals.filter((count) => count > 0),
+    ...collectOffGridCounts(
+      plan.map((entry) => entry.date),
+      baselineCounts
+    ),
+  ];
+
+  const thresholds = computeQuartileThresholds(population);
+  const cols = Math.ceil(plan.length / GRID_ROWS);
+  const levels: CommitLevel[][] = Array.from({ length: GRID_ROWS }, () =>
+    Array.from({ length: cols }, () => 0 as CommitLevel)
+  );
+  const mismatches: LevelMismatch[] = [];
+
+  plan.forEach((entry, index) => {
+    const totalCount = totals[index];
+    const predictedLevel = bucketCount(totalCount, thresholds);
+    levels[index % GRID_ROWS][Math.floor(index / GRID_ROWS)] = predictedLevel;
+    if (predictedLevel !== entry.level) {
+      mismatches.push({
+        date: entry.date,
+        drawnLevel: entry.level,
+        predictedLevel,
+        totalCount,
+      });
+    }
+  });
+
+  return { thresholds, levels, mismatches };
+}
+
+/**
+ * Collects non-zero baseline counts for days outside the grid that still fall
+ * in the year GitHub shades together with it.
+ *
+ * @param gridDates Dates covered by the grid, in chronological order.
+ * @param baselineCounts Optional existing per-day counts.
+ * @return Daily counts that join the quartile population.
+ */
+export function collectOffGridCounts(
+  gridDates: string[],
+  baselineCounts?: DailyCommitCounts
+): number[] {
+  const lastDate = gridDates[gridDates.length - 1];
+  if (!baselineCounts || !lastDate) {
+    return [];
+  }
+
+  const gridDateSet = new Set(gridDates);
+  const counts: number[] = [];
+  for (const [date, count] of Object.entries(baselineCounts)) {
+    if (count <= 0 || gridDateSet.has(date)) {
+      continue;
+    }
+    const age = diffInDays(date, lastDate);
+    if (age >= 0 && age < RENDER_WINDOW_DAYS) {
+      counts.push(count);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Computes the quartile thresholds of non-zero daily counts.
+ *
+ * @param counts Non-zero daily counts.
+ * @return Inclusive upper bounds for levels 1-3.
+ */
+export function computeQuartileThresholds(
+  counts: number[]
+): [number, number, number] {
+  if (counts.length === 0) {
+    return [0, 0, 0];
+  }
+  const sorted = [...counts].sort((a, b) => a - b);
+  return [
+    nearestRank(sorted, 0.25),
+    nearestRank(sorted, 0.5),
+    nearestRank(sorted, 0.75),
+  ];
+}
+
+/**
+ * Maps a daily total to a rendered level.
+ *
+ * @param count Daily commit total.
+ * @param thresholds Quartile thresholds.
+ * @return Rendered level.
+ */
+export function bucketCount(
+  count: number,
+  thresholds: [number, number, number]
+): CommitLevel {
+  if (count <= 0) {
+    return 0;
+  }
+  if (count <= thresholds[0]) {
+    return 1;
+  }
+  if (count <= thresholds[1]) {
+    return 2;
+  }
+  if (count <= thresholds[2]) {
+    return 3;
+  }
+  return 4;
+}
+
+/**
+ * Returns the nearest-rank percentile of a sorted list.
+ *
+ * @param sorted Ascending values.
+ * @param percentile Percentile in (0, 1].
+ * @return Percentile value.
+ */
+function nearestRank(sorted: number[], percentile: number): number {
+  const rank = Math.max(1, Math.ceil(percentile * sorted.length));
+  return sorted[rank - 1];
+}
@@ -2,6 +2,15 @@ import type { CommitLevel, GridPayload } from "../../../shared/src/types";
 import { addDays, assertValidIsoDate, formatIsoDate } from "../utils/date";
 import { ValidationError } from "../utils/errors";
 
+/** Number of rows in the grid, one per weekday. */
+export const GRID_ROWS = 7;
+
+/** Smallest supported number of week columns. */
+export const MIN_GRID_COLS = 1;
+
+/** Largest supported number of week columns (a full GitHub year). */
+export const MAX_GRID_COLS = 53;
+
 /**
  * Validates the grid shape and contents.
  *
@@ -9,9 +18,19 @@ import { ValidationError } from "../utils/errors";
  * @throws {ValidationError} When the grid is malformed.
  */
 export function validateGrid(grid: GridPayload): void {
-  if (grid.rows !== 7 || grid.cols !== 51) {
+  if (grid.rows !== GRID_ROWS) {
+    throw new ValidationError(
+      `Grid must have ${GRID_ROWS} rows, received ${grid.rows}.`
+    );
+  }
+
+  if (
+    !Number.isInteger(grid.cols) ||
+    grid.cols < MIN_GRID_COLS ||
+    grid.cols > MAX_GRID_COLS
+  ) {
     throw new ValidationError(
-      `Grid must be 7x51, received ${grid.rows}x${grid.cols}.`
+      `Grid must have between ${MIN_GRID_COLS} and ${MAX_GRID_COLS} columns, received ${grid.cols}.`
     );
   }
 
@@ -36,6 +55,16 @@ export function validateGrid(grid: GridPayload): void {
   });
 }
 
+/**
+ * Computes the number of days covered by a grid.
+ *
+ * @param grid Grid dimensions.
+ * @return Day count (rows * cols).
+ */
+export function getGridDayCount(grid: Pick<GridPayload, "rows" | "cols">): number {
+  return grid.rows * grid.cols;
+}
+
 /**
  * Computes the date string for a grid cell.
  *
@@ -0,0 +1,150 @@
+import type {
+  CommitIntensityMap,
+  CommitLevel,
+  DailyCommitCounts,
+  GridPayload,
+} from "../../../shared/src/types";
+import { assertValidIsoDate } from "../utils/date";
+import { ValidationError } from "../utils/errors";
+import { bucketCount, computeQuartileThresholds } from "./githubRendering";
+import { getDateForCell, GRID_ROWS, validateGrid } from "./grid";
+
+/**
+ * Git log format used for per-day counting: author email, tab, short date.
+ */
+export const DAILY_LOG_FORMAT = "%ae%x09%ad";
+
+/**
+ * Parses `git log --format=%ae%x09%ad --date=short` output into per-day counts.
+ *
+ * @param output Raw git log output.
+ * @param authorEmail Optional author email filter (case-insensitive).
+ * @return Commit counts keyed by ISO date.
+ */
+export function parseDailyLog(
+  output: string,
+  authorEmail?: string
+): DailyCommitCounts {
+  const counts: DailyCommitCounts = {};
+  const expectedEmail = authorEmail?.trim().toLowerCase();
+
+  for (const line of output.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const [email, date] = trimmed.split("\t");
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      continue;
+    }
+    if (expectedEmail && email.toLowerCase() !== expectedEmail) {
+      continue;
+    }
+
+    counts[date] = (counts[date] ?? 0) + 1;
+  }
+
+  return counts;
+}
+
+/**
+ * Validates user-supplied per-day counts.
+ *
+ * @param counts Counts keyed by ISO date.
+ * @throws {ValidationError} When a key or value is invalid.
+ */
+export function validateDailyCounts(counts: DailyCommitCounts): void {
+  for (const [date, count] of Object.entries(counts)) {
+    assertValidIsoDate(date, `baseline date ${date}`);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new ValidationError(
+        `Baseline count for ${date} must be a non-negative integer.`
+      );
+    }
+  }
+}
+
+/**
+ * Maps per-day counts onto a grid, shading each cell the way GitHub would.
+ *
+ * @param counts Commit counts keyed by ISO date.
+ * @param startDate Date of the top-left cell.
+ * @param cols Number of week columns.
+ * @return Grid, the counts inside it and an intensity map inferred from them.
+ */
+export function buildGridFromCounts(
+  counts: DailyCommitCounts,
+  startDate: string,
+  cols: number
+): {
+  grid: GridPayload;
+  gridCounts: DailyCommitCounts;
+  intensityMap: CommitIntensityMap;
+} {
+  const cells: Array<{ row: number; col: number; date: string; count: number }> =
+    [];
+  for (let col = 0; col < cols; col += 1) {
+    for (let row = 0; row < GRID_ROWS; row += 1) {
+      const date = getDateForCell(startDate, row, col);
+      cells.push({ row, col, date, count: counts[date] ?? 0 });
+    }
+  }
+
+  const thresholds = computeQuartileThresholds(
+    cells.map((cell) => cell.count).filter((count) => count > 0)
+  );
+  const levels: CommitLevel[][] = Array.from({ length: GRID_ROWS }, () =>
+    Array.from({ length: cols }, () => 0 as CommitLevel)
+  );
+  const gridCounts: DailyCommitCounts = {};
+  const countsByLevel: Record<CommitLevel, number[]> = {
+    0: [],
+    1: [],
+    2: [],
+    3: [],
+    4: [],
+  };
+
+  for (const cell of cells) {
+    const level = bucketCount(cell.count, thresholds);
+    levels[cell.row][cell.col] = level;
+    countsByLevel[level].push(cell.count);
+    if (cell.count > 0) {
+      gridCounts[cell.date] = cell.count;
+    }
+  }
+
+  const grid: GridPayload = { rows: GRID_ROWS, cols, levels };
+  validateGrid(grid);
+
+  return { grid, gridCounts, intensityMap: inferIntensityMap(countsByLevel) };
+}
+
+/**
+ * Infers commit ranges per level from observed counts. Levels without any
+ * cells continue just above the previous level so ranges stay ordered.
+ *
+ * @param countsByLevel Observed counts grouped by level.
+ * @return Intensity map.
+ */
+function inferIntensityMap(
+  countsByLevel: Record<CommitLevel, number[]>
+): CommitIntensityMap {
+  const map: CommitIntensityMap = {
+    minByLevel: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 },
+    maxByLevel: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 },
+  };
+
+  let previousMax = 0;
+  for (const level of [1, 2, 3, 4] as const) {
+    const observed = countsByLevel[level];
+    const min = observed.length > 0 ? Math.min(...observed) : previousMax + 1;
+    const max = observed.length > 0 ? Math.max(...observed) : min;
+    map.minByLevel[level] = min;
+    map.maxByLevel[level] = max;
+    previousMax = max;
+  }
+
+  return map;
+}
@@ -0,0 +1,356 @@
+import { inflateSync } from "node:zlib";
+import { ValidationError } from "../utils/errors";
+
+/** Largest accepted image, in pixels, to keep decoding cheap. */
+const MAX_PIXELS = 4096 * 4096;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Decoded image as 8-bit RGBA pixels, row by row from the top.
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** RGBA bytes, `width * height * 4` long. */
+  data: Uint8Array;
+}
+
+/**
+ * Decodes a PNG or BMP file.
+ *
+ * @param bytes Raw file bytes.
+ * @return Decoded RGBA image.
+ * @throws {ValidationError} When the format is unsupported or corrupt.
+ */
+export function decodeImage(bytes: Uint8Array): DecodedImage {
+  if (PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+    return decodePng(bytes);
+  }
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d) {
+    return decodeBmp(bytes);
+  }
+  throw new ValidationError("Unsupported image format. Upload a PNG or BMP.");
+}
+
+/**
+ * Decodes a non-interlaced PNG of any color type and bit depth.
+ *
+ * @param bytes Raw PNG bytes.
+ * @return Decoded RGBA image.
+ */
+export function decodePng(bytes: Uint8Array): DecodedImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const dataChunks: Uint8Array[] = [];
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (chunk.length !== length) {
+      throw new ValidationError("PNG file is truncated.");
+    }
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      const header = new DataView(
+        chunk.buffer,
+        chunk.byteOffset,
+        chunk.byteLength
+      );
+      width = header.getUint32(0);
+      height = header.getUint32(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new ValidationError("Interlaced PNG files are not supported.");
+      }
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      dataChunks.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  assertDimensions(width, height);
+  const channels = getPngChannels(colorType);
+  if (![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new ValidationError(`Unsupported PNG bit depth ${bitDepth}.`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new ValidationError("Palette PNG is missing its PLTE chunk.");
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const expectedLength = height * (stride + 1);
+
+  let raw: Uint8Array;
+  try {
+    // Capped at what the dimensions need, so a tiny IDAT cannot inflate
+    // into gigabytes.
+    raw = inflateSync(Buffer.concat(dataChunks), {
+      maxOutputLength: expectedLength,
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new ValidationError(
+        "PNG image data is larger than its dimensions allow."
+      );
+    }
+    throw new ValidationError("PNG image data is corrupt.");
+  }
+
+  if (raw.length < expectedLength) {
+    throw new ValidationError("PNG image data is truncated.");
+  }
+
+  const pixels = unfilterScanlines(raw, height, stride, bytesPerPixel);
+  const data = new Uint8Array(width * height * 4);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+
+  const readSample = (row: number, index: number): number => {
+    const base = row * stride;
+    if (bitDepth === 16) {
+      return pixels[base + index * 2];
+    }
+    if (bitDepth === 8) {
+      return pixels[base + index];
+    }
+    const bitOffset = index * bitDepth;
+    const byte = pixels[base + (bitOffset >> 3)];
+    const shift = 8 - bitDepth - (bitOffset & 7);
+    return (byte >> shift) & maxSample;
+  };
+  const scale = (sample: number) =>
+    bitDepth >= 8 ? sample : Math.round((sample * 255) / maxSample);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const out = (y * width + x) * 4;
+      const first = x * channels;
+      if (colorType === 3) {
+        const index = readSample(y, first);
+        data[out] = palette![index * 3] ?? 0;
+        data[out + 1] = palette![index * 3 + 1] ?? 0;
+        data[out + 2] = palette![index * 3 + 2] ?? 0;
+        data[out + 3] = transparency?.[index] ?? 255;
+        continue;
+      }
+
+      if (colorType === 0 || colorType === 4) {
+        const gray = scale(readSample(y, first));
+        data[out] = gray;
+        data[out + 1] = gray;
+        data[out + 2] = gray;
+        data[out + 3] = colorType === 4 ? scale(readSample(y, first + 1)) : 255;
+        continue;
+      }
+
+      data[out] = scale(readSample(y, first));
+      data[out + 1] = scale(readSample(y, first + 1));
+      data[out + 2] = scale(readSample(y, first + 2));
+      data[out + 3] = colorType === 6 ? scale(readSample(y, first + 3)) : 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Decodes an uncompressed BMP (1, 4, 8, 24 or 32 bits per pixel).
+ *
+ * @param bytes Raw BMP bytes.
+ * @return Decoded RGBA image.
+ */
+export function decodeBmp(bytes: Uint8Array): DecodedImage {
+  if (bytes.length < 54) {
+    throw new ValidationError("BMP file is truncated.");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const width = view.getInt32(18, true);
+  const rawHeight = view.getInt32(22, true);
+  const bitsPerPixel = view.getUint16(28, true);
+  const compression = view.getUint32(30, true);
+  const paletteSize = view.getUint32(46, true);
+  const height = Math.abs(rawHeight);
+  const topDown = rawHeight < 0;
+
+  assertDimensions(width, height);
+  if (![1, 4, 8, 24, 32].includes(bitsPerPixel)) {
+    throw new ValidationError(`Unsupported BMP bit depth ${bitsPerPixel}.`);
+  }
+  // 0 = BI_RGB; 3 = BI_BITFIELDS, accepted for 32-bit BGRA files.
+  if (compression !== 0 && !(compression === 3 && bitsPerPixel === 32)) {
+    throw new ValidationError("Compressed BMP files are not supported.");
+  }
+
+  const stride = Math.ceil((width * bitsPerPixel) / 32) * 4;
+  if (pixelOffset + stride * height > bytes.length) {
+    throw new ValidationError("BMP file is truncated.");
+  }
+
+  const paletteStart = 14 + headerSize;
+  const paletteEntries =
+    bitsPerPixel <= 8 ? paletteSize || 1 << bitsPerPixel : 0;
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y += 1) {
+    const sourceRow = topDown ? y : height - 1 - y;
+    const rowStart = pixelOffset + sourceRow * stride;
+    for (let x = 0; x < width; x += 1) {
+      const out = (y * width + x) * 4;
+      if (bitsPerPixel >= 24) {
+        const base = rowStart + x * (bitsPerPixel / 8);
+        data[out] = bytes[base + 2];
+        data[out + 1] = bytes[base + 1];
+        data[out + 2] = bytes[base];
+        data[out + 3] = 255;
+        continue;
+      }
+
+      const bitOffset = x * bitsPerPixel;
+      const byte = bytes[rowStart + (bitOffset >> 3)];
+      const shift = 8 - bitsPerPixel - (bitOffset & 7);
+      const index = (byte >> shift) & ((1 << bitsPerPixel) - 1);
+      if (index >= paletteEntries) {
+        throw new ValidationError("BMP palette index out of range.");
+      }
+      const entry = paletteStart + index * 4;
+      data[out] = bytes[entry + 2];
+      data[out + 1] = bytes[entry + 1];
+      data[out + 2] = bytes[entry];
+      data[out + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Maps a PNG color type to its channel count.
+ *
+ * @param colorType PNG color type.
+ * @return Channels per pixel.
+ */
+function getPngChannels(colorType: number): number {
+  switch (colorType) {
+    case 0:
+      return 1;
+    case 2:
+      return 3;
+    case 3:
+      return 1;
+    case 4:
+      return 2;
+    case 6:
+      return 4;
+    default:
+      throw new ValidationError(`Unsupported PNG color type ${colorType}.`);
+  }
+}
+
+/**
+ * Reverses PNG scanline filters.
+ *
+ * @param raw Inflated image data including filter bytes.
+ * @param height Image height.
+ * @param stride Bytes per scanline without the filter byte.
+ * @param bytesPerPixel Bytes per complete pixel (at least 1).
+ * @return Unfiltered scanlines concatenated.
+ */
+function unfilterScanlines(
+  raw: Uint8Array,
+  height: number,
+  stride: number,
+  bytesPerPixel: number
+): Uint8Array {
+  const output = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y += 1) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const target = y * stride;
+    const previous = target - stride;
+
+    for (let i = 0; i < stride; i += 1) {
+      const value = raw[source + i];
+      const left = i >= bytesPerPixel ? output[target + i - bytesPerPixel] : 0;
+      const up = y > 0 ? output[previous + i] : 0;
+      const upLeft =
+        y > 0 && i >= bytesPerPixel ? output[previous + i - bytesPerPixel] : 0;
+
+      let predicted: number;
+      switch (filter) {
+        case 0:
+          predicted = 0;
+          break;
+        case 1:
+          predicted = left;
+          break;
+        case 2:
+          predicted = up;
+          break;
+        case 3:
+          predicted = (left + up) >> 1;
+          break;
+        case 4:
+          predicted = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new ValidationError(`Invalid PNG filter type ${filter}.`);
+      }
+      output[target + i] = (value + predicted) & 0xff;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * PNG Paeth predictor.
+ *
+ * @param a Left byte.
+ * @param b Up byte.
+ * @param c Upper-left byte.
+ * @return Predicted byte.
+ */
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Validates decoded image dimensions.
+ *
+ * @param width Image width.
+ * @param height Image height.
+ */
+function assertDimensions(width: number, height: number): void {
+  if (width <= 0 || height <= 0) {
+    throw new ValidationError("Image has invalid dimensions.");
+  }
+  if (width * height > MAX_PIXELS) {
+    throw new ValidationError("Image is too large. Use a smaller image.");
+  }
+}
@@ -0,0 +1,186 @@
+import type { CommitLevel, GridPayload } from "../../../shared/src/types";
+import { DecodedImage } from "./imageDecoder";
+import { GRID_ROWS } from "./grid";
+
+/**
+ * Options for converting an image into grid levels.
+ */
+export interface ImageGridOptions {
+  /** Grid width in week columns. */
+  cols: number;
+  /** Darkness in [0, 1) below which a cell stays at level 0. */
+  threshold: number;
+  /** Contrast multiplier applied around mid-gray. */
+  contrast: number;
+  /** When true, light pixels become high levels. */
+  invert: boolean;
+  /** When true, applies Floyd-Steinberg error diffusion. */
+  dither: boolean;
+  /** When true, stretches the image to the full grid width. */
+  stretch: boolean;
+}
+
+/**
+ * Converts a decoded image into a grid.
+ *
+ * The image is downscaled to 7 rows (keeping its aspect ratio unless
+ * `stretch` is set), converted to grayscale darkness over a white background,
+ * and quantized into the five commit levels.
+ *
+ * @param image Decoded RGBA image.
+ * @param options Conversion options.
+ * @return Grid payload with the image centered horizontally.
+ */
+export function imageToGrid(
+  image: DecodedImage,
+  options: ImageGridOptions
+): GridPayload {
+  const { cols, threshold, contrast, invert, dither, stretch } = options;
+  const targetCols = stretch
+    ? cols
+    : Math.min(cols, Math.max(1, Math.round((image.width * GRID_ROWS) / image.height)));
+  const leftPad = Math.floor((cols - targetCols) / 2);
+
+  const darkness = downscaleDarkness(image, GRID_ROWS, targetCols).map((row) =>
+    row.map((value) => {
+      const base = invert ? 1 - value : value;
+      return clamp01((base - 0.5) * contrast + 0.5);
+    })
+  );
+
+  const reconstruction = buildReconstructionLevels(threshold);
+  const levels: CommitLevel[][] = Array.from({ length: GRID_ROWS }, () =>
+    Array.from({ length: cols }, () => 0 as CommitLevel)
+  );
+
+  for (let row = 0; row < GRID_ROWS; row += 1) {
+    for (let col = 0; col < targetCols; col += 1) {
+      const value = darkness[row][col];
+      const level = quantize(value, threshold, reconstruction);
+      levels[row][leftPad + col] = level;
+
+      if (!dither) {
+        continue;
+      }
+      const error = value - reconstruction[level];
+      diffuse(darkness, row, col + 1, error * (7 / 16));
+      diffuse(darkness, row + 1, col - 1, error * (3 / 16));
+      diffuse(darkness, row + 1, col, error * (5 / 16));
+      diffuse(darkness, row + 1, col + 1, error * (1 / 16));
+    }
+  }
+
+  return { rows: GRID_ROWS, cols, levels };
+}
+
+/**
+ * Averages image darkness into a target grid using box sampling.
+ *
+ * @param image Decoded RGBA image.
+ * @param rows Target rows.
+ * @param cols Target columns.
+ * @return Darkness values in [0, 1] by row then column.
+ */
+function downscaleDarkness(
+  image: DecodedImage,
+  rows: number,
+  cols: number
+): number[][] {
+  const { width, height, data } = image;
+  const result: number[][] = [];
+
+  for (let row = 0; row < rows; row += 1) {
+    const y0 = Math.floor((row * height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * height) / rows));
+    const values: number[] = [];
+
+    for (let col = 0; col < cols; col += 1) {
+      const x0 = Math.floor((col * width) / cols);
+      const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * width) / cols));
+      let total = 0;
+      let count = 0;
+
+      for (let y = y0; y < Math.min(y1, height); y += 1) {
+        for (let x = x0; x < Math.min(x1, width); x += 1) {
+          const index = (y * width + x) * 4;
+          const alpha = data[index + 3] / 255;
+          const luminance =
+            (0.2126 * data[index] + 0.7152 * data[index + 1] + 0.0722 * data[index + 2]) /
+            255;
+          // Composite over white so transparent pixels read as background.
+          total += 1 - (luminance * alpha + (1 - alpha));
+          count += 1;
+        }
+      }
+
+      values.push(count > 0 ? total / count : 0);
+    }
+    result.push(values);
+  }
+
+  return result;
+}
+
+/**
+ * Returns the darkness each level represents: 0 for level 0, then evenly
+ * spaced values from the threshold up to 1 for levels 1-4.
+ *
+ * @param threshold Level-0 cutoff.
+ * @return Reconstruction value per level.
+ */
+function buildReconstructionLevels(threshold: number): number[] {
+  const levels = [0];
+  for (let step = 0; step < 4; step += 1) {
+    levels.push(threshold + ((1 - threshold) * step) / 3);
+  }
+  return levels;
+}
+
+/**
+ * Quantizes a darkness value to a level.
+ *
+ * @param value Darkness value.
+ * @param threshold Level-0 cutoff.
+ * @param reconstruction Reconstruction value per level.
+ * @return Commit level.
+ */
+function quantize(
+  value: number,
+  threshold: number,
+  reconstruction: number[]
+): CommitLevel {
+  if (value <= 0 || value < threshold) {
+    return 0;
+  }
+  let best = 1;
+  for (let level = 2; level <= 4; level += 1) {
+    if (Math.abs(value - reconstruction[level]) < Math.abs(value - reconstruction[best])) {
+      best = level;
+    }
+  }
+  return best as CommitLevel;
+}
+
+/**
+ * Adds diffused error to a neighbouring cell when it exists.
+ *
+ * @param values Darkness values.
+ * @param row Row index.
+ * @param col Column index.
+ * @param amount Error amount.
+ */
+function diffuse(values: number[][], row: number, col: number, amount: number): void {
+  if (row < values.length && col >= 0 && col < values[row].length) {
+    values[row][col] += amount;
+  }
+}
+
+/**
+ * Clamps a number to [0, 1].
+ *
+ * @param value Numeric value.
+ * @return Clamped value.
+ */
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,129 @@
+/**
+ * Built-in bitmap fonts for text banners.
+ *
+ * Each glyph is a list of rows where `#` marks a lit pixel. Glyphs share the
+ * font height but may be narrower than the nominal width (for example `I`,
+ * `.` and space) so words pack tightly on the grid.
+ */
+
+/**
+ * A bitmap font definition.
+ */
+export interface PixelFont {
+  /** Glyph height in rows. */
+  height: number;
+  /** Glyph bitmaps keyed by upper-case character. */
+  glyphs: Record<string, string[]>;
+}
+
+const FONT_5X7: PixelFont = {
+  height: 7,
+  glyphs: {
+    A: [".###.", "#...#", "#...#", "#####", "#...#", "#...#", "#...#"],
+    B: ["####.", "#...#", "#...#", "####.", "#...#", "#...#", "####."],
+    C: [".###.", "#...#", "#....", "#....", "#....", "#...#", ".###."],
+    D: ["###..", "#..#.", "#...#", "#...#", "#...#", "#..#.", "###.."],
+    E: ["#####", "#....", "#....", "####.", "#....", "#....", "#####"],
+    F: ["#####", "#....", "#....", "####.", "#....", "#....", "#...."],
+    G: [".###.", "#...#", "#....", "#.###", "#...#", "#...#", ".####"],
+    H: ["#...#", "#...#", "#...#", "#####", "#...#", "#...#", "#...#"],
+    I: ["###", ".#.", ".#.", ".#.", ".#.", ".#.", "###"],
+    J: ["..###", "...#.", "...#.", "...#.", "...#.", "#..#.", ".##.."],
+    K: ["#...#", "#..#.", "#.#..", "##...", "#.#..", "#..#.", "#...#"],
+    L: ["#....", "#....", "#....", "#....", "#....", "#....", "#####"],
+    M: ["#...#", "##.##", "#.#.#", "#.#.#", "#...#", "#...#", "#...#"],
+    N: ["#...#", "#...#", "##..#", "#.#.#", "#..##", "#...#", "#...#"],
+    O: [".###.", "#...#", "#...#", "#...#", "#...#", "#...#", ".###."],
+    P: ["####.", "#...#", "#...#", "####.", "#....", "#....", "#...."],
+    Q: [".###.", "#...#", "#...#", "#...#", "#.#.#", "#..#.", ".##.#"],
+    R: ["####.", "#...#", "#...#", "####.", "#.#..", "#..#.", "#...#"],
+    S: [".####", "#....", "#....", ".###.", "....#", "....#", "####."],
+    T: ["#####", "..#..", "..#..", "..#..", "..#..", "..#..", "..#.."],
+    U: ["#...#", "#...#", "#...#", "#...#", "#...#", "#...#", ".###."],
+    V: ["#...#", "#...#", "#...#", "#...#", "#...#", ".#.#.", "..#.."],
+    W: ["#...#", "#...#", "#...#", "#.#.#", "#.#.#", "#.#.#", ".#.#."],
+    X: ["#...#", "#...#", ".#.#.", "..#..", ".#.#.", "#...#", "#...#"],
+    Y: ["#...#", "#...#", ".#.#.", "..#..", "..#..", "..#..", "..#.."],
+    Z: ["#####", "....#", "...#.", "..#..", ".#...", "#....", "#####"],
+    "0": [".###.", "#...#", "#..##", "#.#.#", "##..#", "#...#", ".###."],
+    "1": ["..#..", ".##..", "..#..", "..#..", "..#..", "..#..", ".###."],
+    "2": [".###.", "#...#", "....#", "...#.", "..#..", ".#...", "#####"],
+    "3": ["#####", "...#.", "..#..", "...#.", "....#", "#...#", ".###."],
+    "4": ["...#.", "..##.", ".#.#.", "#..#.", "#####", "...#.", "...#."],
+    "5": ["#####", "#....", "####.", "....#", "....#", "#...#", ".###."],
+    "6": ["..##.", ".#...", "#....", "####.", "#...#", "#...#", ".###."],
+    "7": ["#####", "....#", "...#.", "..#..", ".#...", ".#...", ".#..."],
+    "8": [".###.", "#...#", "#...#", ".###.", "#...#", "#...#", ".###."],
+    "9": [".###.", "#...#", "#...#", ".####", "....#", "...#.", ".##.."],
+    " ": ["...", "...", "...", "...", "...", "...", "..."],
+    ".": [".", ".", ".", ".", ".", ".", "#"],
+    ",": ["..", "..", "..", "..", ".#", ".#", "#."],
+    "!": ["#", "#", "#", "#", "#", ".", "#"],
+    "?": [".###.", "#...#", "....#", "...#.", "..#..", ".....", "..#.."],
+    "-": ["...", "...", "...", "###", "...", "...", "..."],
+    "+": [".....", "..#..", "..#..", "#####", "..#..", "..#..", "....."],
+    ":": [".", ".", "#", ".", "#", ".", "."],
+    "'": ["#", "#", ".", ".", ".", ".", "."],
+    "/": ["....#", "....#", "...#.", "..#..", ".#...", "#....", "#...."],
+  },
+};
+
+const FONT_3X5: PixelFont = {
+  height: 5,
+  glyphs: {
+    A: [".#.", "#.#", "###", "#.#", "#.#"],
+    B: ["##.", "#.#", "##.", "#.#", "##."],
+    C: [".##", "#..", "#..", "#..", ".##"],
+    D: ["##.", "#.#", "#.#", "#.#", "##."],
+    E: ["###", "#..", "##.", "#..", "###"],
+    F: ["###", "#..", "##.", "#..", "#.."],
+    G: [".##", "#..", "#.#", "#.#", ".##"],
+    H: ["#.#", "#.#", "###", "#.#", "#.#"],
+    I: ["###", ".#.", ".#.", ".#.", "###"],
+    J: ["..#", "..#", "..#", "#.#", ".#."],
+    K: ["#.#", "#.#", "##.", "#.#", "#.#"],
+    L: ["#..", "#..", "#..", "#..", "###"],
+    M: ["#.#", "###", "###", "#.#", "#.#"],
+    N: ["##.", "#.#", "#.#", "#.#", "#.#"],
+    O: [".#.", "#.#", "#.#", "#.#", ".#."],
+    P: ["##.", "#.#", "##.", "#..", "#.."],
+    Q: [".#.", "#.#", "#.#", "##.", ".##"],
+    R: ["##.", "#.#", "##.", "#.#", "#.#"],
+    S: [".##", "#..", ".#.", "..#", "##."],
+    T: ["###", ".#.", ".#.", ".#.", ".#."],
+    U: ["#.#", "#.#", "#.#", "#.#", "###"],
+    V: ["#.#", "#.#", "#.#", "#.#", ".#."],
+    W: ["#.#", "#.#", "###", "###", "#.#"],
+    X: ["#.#", "#.#", ".#.", "#.#", "#.#"],
+    Y: ["#.#", "#.#", ".#.", ".#.", ".#."],
+    Z: ["###", "..#", ".#.", "#..", "###"],
+    "0": ["###", "#.#", "#.#", "#.#", "###"],
+    "1": [".#.", "##.", ".#.", ".#.", "###"],
+    "2": ["##.", "..#", ".#.", "#..", "###"],
+    "3": ["##.", "..#", ".#.", "..#", "##."],
+    "4": ["#.#", "#.#", "###", "..#", "..#"],
+    "5": ["###", "#..", "##.", "..#", "##."],
+    "6": [".##", "#..", "###", "#.#", "###"],
+    "7": ["###", "..#", ".#.", ".#.", ".#."],
+    "8": ["###", "#.#", "###", "#.#", "###"],
+    "9": ["###", "#.#", "###", "..#", "##."],
+    " ": ["..", "..", "..", "..", ".."],
+    ".": [".", ".", ".", ".", "#"],
+    ",": ["..", "..", "..", ".#", "#."],
+    "!": ["#", "#", "#", ".", "#"],
+    "?": ["##.", "..#", ".#.", "...", ".#."],
+    "-": ["...", "...", "###", "...", "..."],
+    "+": ["...", ".#.", "###", ".#.", "..."],
+    ":": [".", "#", ".", "#", "."],
+    "'": ["#", "#", ".", ".", "."],
+    "/": ["..#", "..#", ".#.", "#..", "#.."],
+  },
+};
+
+/**
+ * Built-in fonts keyed by name.
+ */
+export const PIXEL_FONTS = {
+  "5x7": FONT_5X7,
+  "3x5": FONT_3X5,
+} as const satisfies Record<string, PixelFont>;
@@ -0,0 +1,106 @@
+import type {
+  CommitLevel,
+  GridPayload,
+  PixelFontName,
+  TextAlign,
+} from "../../../shared/src/types";
+import { ValidationError } from "../utils/errors";
+import { GRID_ROWS, MAX_GRID_COLS, MIN_GRID_COLS } from "./grid";
+import { PIXEL_FONTS } from "./pixelFonts";
+
+/**
+ * Options for rendering a text banner.
+ */
+export interface TextBannerOptions {
+  font: PixelFontName;
+  align: TextAlign;
+  letterSpacing: number;
+  offset: number;
+  level: CommitLevel;
+  cols: number;
+}
+
+/**
+ * Renders text into a grid using a built-in pixel font.
+ *
+ * @param text Text to render.
+ * @param options Font, layout and level options.
+ * @return Rendered grid and text width.
+ * @throws {ValidationError} When characters are unsupported or the text does not fit.
+ */
+export function renderTextBanner(
+  text: string,
+  options: TextBannerOptions
+): { grid: GridPayload; textWidth: number } {
+  const { font: fontName, align, letterSpacing, offset, level, cols } = options;
+  const font = PIXEL_FONTS[fontName];
+
+  if (cols < MIN_GRID_COLS || cols > MAX_GRID_COLS) {
+    throw new ValidationError(
+      `cols must be between ${MIN_GRID_COLS} and ${MAX_GRID_COLS}.`
+    );
+  }
+  if (level === 0) {
+    throw new ValidationError("Text level must be between 1 and 4.");
+  }
+
+  const characters = [...text.toUpperCase()];
+  const unsupported = [
+    ...new Set(characters.filter((char) => !font.glyphs[char])),
+  ];
+  if (unsupported.length > 0) {
+    throw new ValidationError(
+      `Font ${fontName} does not support: ${unsupported.join(" ")}`
+    );
+  }
+
+  const glyphs = characters.map((char) => font.glyphs[char]);
+  const textWidth = glyphs.reduce(
+    (sum, glyph, index) => sum + glyph[0].length + (index > 0 ? letterSpacing : 0),
+    0
+  );
+
+  const startCol = getAlignedStart(textWidth, cols, align) + offset;
+  if (textWidth > cols || startCol < 0 || startCol + textWidth > cols) {
+    throw new ValidationError(
+      `Text is ${textWidth} columns wide and does not fit a ${cols}-column grid at offset ${offset}.`
+    );
+  }
+
+  const levels: CommitLevel[][] = Array.from({ length: GRID_ROWS }, () =>
+    Array.from({ length: cols }, () => 0 as CommitLevel)
+  );
+  const topRow = Math.floor((GRID_ROWS - font.height) / 2);
+
+  let cursor = startCol;
+  for (const glyph of glyphs) {
+    glyph.forEach((line, glyphRow) => {
+      [...line].forEach((pixel, glyphCol) => {
+        if (pixel === "#") {
+          levels[topRow + glyphRow][cursor + glyphCol] = level;
+        }
+      });
+    });
+    cursor += glyph[0].length + letterSpacing;
+  }
+
+  return { grid: { rows: GRID_ROWS, cols, levels }, textWidth };
+}
+
+/**
+ * Computes the first column for aligned text.
+ *
+ * @param textWidth Width of the text.
+ * @param cols Grid width.
+ * @param align Alignment.
+ * @return Start column before applying the offset.
+ */
+function getAlignedStart(textWidth: number, cols: number, align: TextAlign): number {
+  if (align === "left") {
+    return 0;
+  }
+  if (align === "right") {
+    return cols - textWidth;
+  }
+  return Math.floor((cols - textWidth) / 2);
+}
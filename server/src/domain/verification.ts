@@ -0,0 +1,97 @@
+import type {
+  CommitPlanEntry,
+  DailyCommitCounts,
+  DayCountMismatch,
+  ShiftedCommits,
+  VerificationReport,
+} from "../../../shared/src/types";
+import { addDays, formatIsoDate } from "../utils/date";
+
+/**
+ * Collects the planned number of new commits per day.
+ *
+ * @param plan Commit plan.
+ * @return Planned counts keyed by ISO date, for days with commits only.
+ */
+export function buildPlannedCounts(plan: CommitPlanEntry[]): DailyCommitCounts {
+  const counts: DailyCommitCounts = {};
+  for (const entry of plan) {
+    if (entry.commitCount > 0) {
+      counts[entry.date] = entry.commitCount;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Compares per-day commit counts found in a repository with the plan.
+ * A shortfall next to a surplus on the previous or following day is
+ * reported as shifted commits rather than as missing and extra ones.
+ *
+ * @param planned Planned counts keyed by ISO date.
+ * @param actual Counts found in the repository.
+ * @return Verification report.
+ */
+export function compareDailyCounts(
+  planned: DailyCommitCounts,
+  actual: DailyCommitCounts
+): VerificationReport {
+  const dates = [...new Set([...Object.keys(planned), ...Object.keys(actual)])].sort();
+  const differences = new Map(
+    dates.map((date) => [date, (actual[date] ?? 0) - (planned[date] ?? 0)])
+  );
+
+  const shifted: ShiftedCommits[] = [];
+  for (const date of dates) {
+    for (const offset of [-1, 1]) {
+      const shortfall = -(differences.get(date) ?? 0);
+      if (shortfall <= 0) {
+        break;
+      }
+      const neighbour = formatIsoDate(addDays(date, offset));
+      const surplus = differences.get(neighbour) ?? 0;
+      if (surplus <= 0) {
+        continue;
+      }
+      const count = Math.min(shortfall, surplus);
+      shifted.push({ plannedDate: date, actualDate: neighbour, count });
+      differences.set(date, -shortfall + count);
+      differences.set(neighbour, surplus - count);
+    }
+  }
+
+  const missing: DayCountMismatch[] = [];
+  const extra: DayCountMismatch[] = [];
+  for (const date of dates) {
+    const difference = differences.get(date) ?? 0;
+    if (difference === 0) {
+      continue;
+    }
+    const mismatch = {
+      date,
+      planned: planned[date] ?? 0,
+      actual: actual[date] ?? 0,
+      count: Math.abs(difference),
+    };
+    (difference < 0 ? missing : extra).push(mismatch);
+  }
+
+  return {
+    matches: missing.length === 0 && extra.length === 0 && shifted.length === 0,
+    plannedCommits: sumCounts(planned),
+    actualCommits: sumCounts(actual),
+    missing,
+    extra,
+    shifted,
+  };
+}
+
+/**
+ * Sums per-day counts.
+ *
+ * @param counts Counts keyed by ISO date.
+ * @return Total count.
+ */
+function sumCounts(counts: DailyCommitCounts): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
@@ -1,6 +1,7 @@
 import fs from "node:fs/promises";
 import { createApp } from "./app";
 import { loadConfig } from "./config/config";
+import { loadJobStore } from "./services/jobService";
 
 /**
  * Bootstraps the API server.
@@ -8,12 +9,14 @@ import { loadConfig } from "./config/config";
 async function main(): Promise<void> {
   const config = loadConfig();
   await fs.mkdir(config.outputRoot, { recursive: true });
+  await loadJobStore(config.jobStorePath);
 
   const app = createApp(config);
 
   app.listen(config.port, () => {
     console.info(`Server listening on http://localhost:${config.port}`);
     console.info(`Output root: ${config.outputRoot}`);
+    console.info(`Job store: ${config.jobStorePath}`);
   });
 }
 
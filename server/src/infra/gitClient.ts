@@ -1,4 +1,5 @@
-import { execFile } from "node:child_process";
+import { execFile, spawn } from "node:child_process";
+import { once } from "node:events";
 import { promisify } from "node:util";
 
 const execFileAsync = promisify(execFile);
@@ -22,3 +23,73 @@ export async function runGit(
   });
   return stdout.trim();
 }
+
+/**
+ * Writable stdin of a long-running Git process.
+ */
+export interface GitInputStream {
+  /** Writes a chunk, waiting for the pipe to drain when it is full. */
+  write(chunk: string): Promise<void>;
+  /** Closes stdin and resolves with stdout once Git exits successfully. */
+  end(): Promise<string>;
+  /** Stops the process without letting it finish its input. */
+  abort(): void;
+}
+
+/**
+ * Spawns a Git command that reads its input from stdin.
+ *
+ * @param cwd Working directory.
+ * @param args Git arguments.
+ * @param env Optional environment overrides.
+ * @return Stream handle.
+ */
+export function streamGit(
+  cwd: string,
+  args: string[],
+  env?: NodeJS.ProcessEnv
+): GitInputStream {
+  const child = spawn("git", args, { cwd, env: env ?? process.env });
+  let stdout = "";
+  let stderr = "";
+  child.stdout.on("data", (chunk: Buffer) => {
+    stdout += chunk.toString("utf8");
+  });
+  child.stderr.on("data", (chunk: Buffer) => {
+    stderr += chunk.toString("utf8");
+  });
+  // Broken pipes surface through the exit code below.
+  child.stdin.on("error", () => undefined);
+
+  const exited = new Promise<string>((resolve, reject) => {
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout.trim());
+      } else {
+        reject(new Error(`git ${args[0]} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+  // Callers observe failures through write() or end().
+  exited.catch(() => undefined);
+
+  return {
+    async write(chunk: string) {
+      if (child.exitCode !== null) {
+        await exited;
+      }
+      if (!child.stdin.write(chunk)) {
+        await Promise.race([once(child.stdin, "drain"), exited]);
+      }
+    },
+    async end() {
+      child.stdin.end();
+      return exited;
+    },
+    abort() {
+      child.stdin.destroy();
+      child.kill();
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { GenerationJob } from "../../../shared/src/types";
+
+/**
+ * Reads job records from a JSON-lines file. Each line is a full snapshot of
+ * one job; later lines replace earlier ones with the same id, and lines that
+ * do not parse (e.g. a write cut short by a crash) are skipped.
+ *
+ * @param filePath Store file path.
+ * @return Latest snapshot of each job, in first-seen order.
+ */
+export async function readJobRecords(filePath: string): Promise<GenerationJob[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const jobs = new Map<string, GenerationJob>();
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const job = JSON.parse(line) as GenerationJob;
+      if (typeof job.id === "string") {
+        jobs.set(job.id, job);
+      }
+    } catch {
+      continue;
+    }
+  }
+  return [...jobs.values()];
+}
+
+/**
+ * Appends a job snapshot to the store file.
+ *
+ * @param filePath Store file path.
+ * @param job Job snapshot.
+ */
+export async function appendJobRecord(
+  filePath: string,
+  job: GenerationJob
+): Promise<void> {
+  await fs.appendFile(filePath, `${JSON.stringify(job)}\n`, { encoding: "utf8" });
+}
+
+/**
+ * Replaces the store file with one snapshot per job. The file is written
+ * next to the store and renamed over it, so a crash keeps the old contents.
+ *
+ * @param filePath Store file path.
+ * @param jobs Job snapshots.
+ */
+export async function writeJobRecords(
+  filePath: string,
+  jobs: GenerationJob[]
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(
+    tempPath,
+    jobs.map((job) => `${JSON.stringify(job)}\n`).join(""),
+    { encoding: "utf8" }
+  );
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from "express";
+import { ZodSchema } from "zod";
+import { ValidationError } from "../utils/errors";
+
+/**
+ * Creates a middleware to validate query strings with Zod.
+ *
+ * @param schema Zod schema.
+ * @return Express middleware.
+ */
+export function validateQuery(schema: ZodSchema) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      const message = result.error.errors
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      return next(new ValidationError(message));
+    }
+
+    req.query = result.data;
+    return next();
+  };
+}
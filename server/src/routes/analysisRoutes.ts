@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { z } from "zod";
+import { createAnalysisController } from "../controllers/analysisController";
+import { AppConfig } from "../config/config";
+import { MAX_GRID_COLS, MIN_GRID_COLS } from "../domain/grid";
+import { validateBody } from "../middlewares/validateBody";
+
+/**
+ * Builds the router for repository analysis APIs.
+ *
+ * @param config App configuration.
+ * @return Express router.
+ */
+export function buildAnalysisRouter(config: AppConfig): Router {
+  const router = Router();
+  const controller = createAnalysisController({ config });
+
+  const analyzeSchema = z.object({
+    folderName: z
+      .string()
+      .min(1)
+      .regex(/^[a-zA-Z0-9._-]+$/, {
+        message: "Folder name contains invalid characters.",
+      }),
+    outputRoot: z.string().optional(),
+    startDate: z.string(),
+    cols: z.number().int().min(MIN_GRID_COLS).max(MAX_GRID_COLS).optional(),
+    authorEmail: z.string().email().optional(),
+  });
+
+  router.post("/analyze", validateBody(analyzeSchema), controller.analyze);
+
+  return router;
+}
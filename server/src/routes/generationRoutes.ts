@@ -3,11 +3,31 @@ import { z } from "zod";
 import { createGenerationController } from "../controllers/generationController";
 import { AppConfig } from "../config/config";
 import { validateBody } from "../middlewares/validateBody";
+import { GRID_ROWS, MAX_GRID_COLS, MIN_GRID_COLS } from "../domain/grid";
+import { getJobProgress } from "../services/jobService";
 import {
   ensureProgress,
   getProgress,
+  getProgressReplay,
+  ProgressEvent,
   subscribeProgress,
 } from "../services/progressService";
+import { isSafeIdentityPart } from "../utils/validation";
+
+const PROGRESS_RETRY_MS = 3 * 1000;
+const PROGRESS_HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Parses an SSE event id sent by a reconnecting client.
+ *
+ * @param value Header or query value.
+ * @return Event id, or undefined when missing or malformed.
+ */
+function parseEventId(value: unknown): number | undefined {
+  return typeof value === "string" && /^\d{1,15}$/.test(value)
+    ? Number(value)
+    : undefined;
+}
 
 /**
  * Builds the router for generation APIs.
@@ -27,11 +47,18 @@ export function buildGenerationRouter(config: AppConfig): Router {
     z.literal(4),
   ]);
 
-  const gridSchema = z.object({
-    rows: z.number().int().min(1),
-    cols: z.number().int().min(1),
-    levels: z.array(z.array(commitLevelSchema)),
-  });
+  const gridSchema = z
+    .object({
+      rows: z.literal(GRID_ROWS),
+      cols: z.number().int().min(MIN_GRID_COLS).max(MAX_GRID_COLS),
+      levels: z.array(z.array(commitLevelSchema)),
+    })
+    .refine(
+      (grid) =>
+        grid.levels.length === grid.rows &&
+        grid.levels.every((row) => row.length === grid.cols),
+      { message: "Grid levels must match rows and cols.", path: ["levels"] }
+    );
 
   const dateRangeSchema = z.object({
     startDate: z.string(),
@@ -43,6 +70,9 @@ export function buildGenerationRouter(config: AppConfig): Router {
     .min(1)
     .regex(/^[a-zA-Z0-9._-]+$/, {
       message: "Folder name contains invalid characters.",
+    })
+    .refine((value) => !value.startsWith("-"), {
+      message: "Folder name cannot start with a dash.",
     });
 
   const intensityRangeSchema = z.object({
@@ -58,11 +88,78 @@ export function buildGenerationRouter(config: AppConfig): Router {
     maxByLevel: intensityRangeSchema,
   });
 
+  const identityMessage = {
+    message: "Names and emails cannot contain <, > or control characters.",
+  };
+
   const authorSchema = z.object({
-    name: z.string().min(1),
-    email: z.string().email(),
+    name: z.string().min(1).refine(isSafeIdentityPart, identityMessage),
+    email: z.string().email().refine(isSafeIdentityPart, identityMessage),
   });
 
+  const distributionSchema = z.object({
+    strategy: z.enum(["uniform", "fixed", "triangular", "gaussian", "smooth"]),
+    fixedByLevel: intensityRangeSchema.partial().optional(),
+    mean: z.number().min(0).max(1).optional(),
+    spread: z.number().positive().max(10).optional(),
+    maxStep: z.number().int().min(0).optional(),
+  });
+
+  const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, {
+    message: "Times must be in HH:mm format.",
+  });
+
+  const timeWindowSchema = z.object({ start: timeSchema, end: timeSchema });
+
+  const activityProfileSchema = z.union([
+    z.enum(["daytime", "office-hours", "night-owl", "weekend-hacker"]),
+    z.object({
+      windowsByWeekday: z.array(z.array(timeWindowSchema).min(1)).length(7),
+      breaks: z.array(timeWindowSchema).optional(),
+      hourlyWeights: z.array(z.number().min(0)).length(24).optional(),
+    }),
+  ]);
+
+  const weightsSchema = z.record(z.string(), z.number().min(0));
+
+  const commitMessagesSchema = z.discriminatedUnion("style", [
+    z.object({ style: z.literal("template"), template: z.string().min(1) }),
+    z.object({
+      style: z.literal("list"),
+      messages: z.array(z.string().min(1)).min(1),
+    }),
+    z.object({
+      style: z.literal("conventional"),
+      types: weightsSchema.optional(),
+      scopes: weightsSchema.optional(),
+    }),
+  ]);
+
+  const authorsSchema = z.object({
+    members: z
+      .array(
+        authorSchema.extend({
+          weight: z.number().min(0).optional(),
+          weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+        })
+      )
+      .min(1),
+    coAuthorProbability: z.number().min(0).max(1).optional(),
+    committer: authorSchema.optional(),
+  });
+
+  const baselineSchema = z.discriminatedUnion("source", [
+    z.object({
+      source: z.literal("repo"),
+      folderName: folderNameSchema,
+      authorEmail: z.string().email().optional(),
+    }),
+    z.object({
+      source: z.literal("counts"),
+      counts: z.record(z.string(), z.number().int().min(0)),
+    }),
+  ]);
+
   const previewSchema = z.object({
     folderName: folderNameSchema,
     outputRoot: z.string().optional(),
@@ -70,33 +167,131 @@ export function buildGenerationRouter(config: AppConfig): Router {
     grid: gridSchema,
     intensityMap: intensityMapSchema.optional(),
     randomSeed: z.string().optional(),
+    distribution: distributionSchema.optional(),
+    totalCommitBudget: z.number().int().min(0).optional(),
+    budgetMode: z.enum(["exact", "max"]).optional(),
+    timeZone: z.string().min(1).optional(),
+    activityProfile: activityProfileSchema.optional(),
+    commitMessages: commitMessagesSchema.optional(),
     author: authorSchema.optional(),
+    authors: authorsSchema.optional(),
+    baseline: baselineSchema.optional(),
+    calibrate: z.boolean().optional(),
+  });
+
+  const targetSchema = z.object({
+    mode: z.enum(["orphan", "branch"]),
+    branch: z
+      .string()
+      .regex(/^[A-Za-z0-9._/-]+$/)
+      .refine((value) => !value.startsWith("-"), {
+        message: "Branch name cannot start with a dash.",
+      }),
+    baseRef: z
+      .string()
+      .regex(/^[A-Za-z0-9._/~^-]+$/)
+      .refine((value) => !value.startsWith("-"), {
+        message: "Base ref cannot start with a dash.",
+      })
+      .optional(),
   });
 
+  const contentGeneratorSchema = z.discriminatedUnion("name", [
+    z.object({ name: z.literal("dump") }),
+    z.object({
+      name: z.literal("journal"),
+      rotation: z.enum(["daily", "monthly", "yearly"]).optional(),
+    }),
+    z.object({
+      name: z.literal("changelog"),
+      startVersion: z
+        .string()
+        .regex(/^\d+\.\d+\.\d+$/, {
+          message: "startVersion must be major.minor.patch.",
+        })
+        .optional(),
+    }),
+    z.object({ name: z.literal("corpus"), folderName: folderNameSchema }),
+  ]);
+
+  const pushSchema = z
+    .object({
+      remote: z.string().min(1).optional(),
+      localPath: z.string().min(1).optional(),
+    })
+    .refine(
+      (push) => (push.remote === undefined) !== (push.localPath === undefined),
+      { message: "push needs exactly one of remote or localPath." }
+    );
+
   const generateSchema = previewSchema.extend({
     dryRun: z.boolean().optional(),
     overwriteExisting: z.boolean().optional(),
+    backend: z.enum(["fast-import", "per-commit"]).optional(),
+    target: targetSchema.optional(),
+    contentGenerator: contentGeneratorSchema.optional(),
+    contentPath: z.string().min(1).optional(),
+    sign: z.boolean().optional(),
+    signingKey: z.string().min(1).optional(),
+    push: pushSchema.optional(),
+    resume: z.boolean().optional(),
     progressId: z.string().min(1).optional(),
+    async: z.boolean().optional(),
   });
 
   router.post("/preview", validateBody(previewSchema), controller.preview);
+  const cancelSchema = z.object({
+    keepPartial: z.boolean().optional(),
+  });
+
   router.post("/generate", validateBody(generateSchema), controller.generate);
+  router.post(
+    "/progress/:id/cancel",
+    validateBody(cancelSchema),
+    controller.cancel
+  );
+  const verifySchema = z.object({
+    folderName: folderNameSchema,
+    outputRoot: z.string().optional(),
+    branch: targetSchema.shape.branch.optional(),
+    baseRef: targetSchema.shape.baseRef,
+    timeZone: z.string().min(1).optional(),
+    request: previewSchema.optional(),
+  });
+
+  router.post("/verify", validateBody(verifySchema), controller.verify);
   router.get("/progress/:id", (req, res) => {
     const { id } = req.params;
     res.setHeader("Content-Type", "text/event-stream");
     res.setHeader("Cache-Control", "no-cache");
     res.setHeader("Connection", "keep-alive");
     res.flushHeaders?.();
+    res.write(`retry: ${PROGRESS_RETRY_MS}\n\n`);
 
-    const send = (state: unknown) => {
-      res.write(`data: ${JSON.stringify(state)}\n\n`);
+    const send = (event: ProgressEvent) => {
+      res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.state)}\n\n`);
     };
 
-    const initial = getProgress(id) ?? ensureProgress(id);
-    send(initial);
+    // Browsers resend the last id as a header; manual reconnects use the query.
+    const lastEventId = parseEventId(
+      req.header("Last-Event-ID") ?? req.query.lastEventId
+    );
+    const replay = getProgressReplay(id, lastEventId);
+    if (replay) {
+      replay.forEach(send);
+    } else {
+      // Finished jobs outlive their live progress state.
+      const initial = getProgress(id) ?? getJobProgress(id) ?? ensureProgress(id);
+      res.write(`data: ${JSON.stringify(initial)}\n\n`);
+    }
 
     const unsubscribe = subscribeProgress(id, send);
+    // Comment lines keep proxies from closing quiet streams.
+    const heartbeat = setInterval(() => {
+      res.write(": heartbeat\n\n");
+    }, PROGRESS_HEARTBEAT_MS);
     req.on("close", () => {
+      clearInterval(heartbeat);
       unsubscribe();
     });
   });
@@ -0,0 +1,33 @@
+import { Router } from "express";
+import { z } from "zod";
+import { createImportController } from "../controllers/importController";
+import { MAX_GRID_COLS, MIN_GRID_COLS } from "../domain/grid";
+import { validateBody } from "../middlewares/validateBody";
+
+/**
+ * Builds the router for import APIs.
+ *
+ * @return Express router.
+ */
+export function buildImportRouter(): Router {
+  const router = Router();
+  const controller = createImportController();
+
+  const importImageSchema = z.object({
+    imageBase64: z.string().min(1),
+    cols: z.number().int().min(MIN_GRID_COLS).max(MAX_GRID_COLS).optional(),
+    threshold: z.number().min(0).max(0.99).optional(),
+    contrast: z.number().min(0).max(5).optional(),
+    invert: z.boolean().optional(),
+    dither: z.boolean().optional(),
+    stretch: z.boolean().optional(),
+  });
+
+  router.post(
+    "/import/image",
+    validateBody(importImageSchema),
+    controller.importImage
+  );
+
+  return router;
+}
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { z } from "zod";
+import { createJobController } from "../controllers/jobController";
+import { validateQuery } from "../middlewares/validateQuery";
+
+const MAX_LISTED_JOBS = 500;
+
+/**
+ * Builds the router for job history APIs.
+ *
+ * @return Express router.
+ */
+export function buildJobRouter(): Router {
+  const router = Router();
+  const controller = createJobController();
+
+  const listJobsSchema = z.object({
+    status: z
+      .enum(["pending", "running", "complete", "error", "cancelled", "interrupted"])
+      .optional(),
+    folder: z
+      .string()
+      .regex(/^[a-zA-Z0-9._-]+$/, {
+        message: "Folder name contains invalid characters.",
+      })
+      .optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_LISTED_JOBS).default(50),
+  });
+
+  router.get("/jobs", validateQuery(listJobsSchema), controller.list);
+  router.get("/jobs/:id", controller.get);
+
+  return router;
+}
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { z } from "zod";
+import { createRepoController } from "../controllers/repoController";
+import { AppConfig } from "../config/config";
+import { validateQuery } from "../middlewares/validateQuery";
+
+/**
+ * Builds the router for generated repository APIs.
+ *
+ * @param config App configuration.
+ * @return Express router.
+ */
+export function buildRepoRouter(config: AppConfig): Router {
+  const router = Router();
+  const controller = createRepoController({ config });
+
+  const downloadSchema = z.object({
+    format: z.enum(["bundle", "tar.gz", "zip"]).default("bundle"),
+    outputRoot: z.string().optional(),
+  });
+
+  router.get(
+    "/repos/:folder/download",
+    validateQuery(downloadSchema),
+    controller.download
+  );
+
+  return router;
+}
@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { z } from "zod";
+import { createTextController } from "../controllers/textController";
+import { MAX_GRID_COLS, MIN_GRID_COLS } from "../domain/grid";
+import { validateBody } from "../middlewares/validateBody";
+
+/**
+ * Builds the router for text banner APIs.
+ *
+ * @return Express router.
+ */
+export function buildTextRouter(): Router {
+  const router = Router();
+  const controller = createTextController();
+
+  const renderTextSchema = z.object({
+    text: z.string().min(1).max(200),
+    font: z.enum(["5x7", "3x5"]).optional(),
+    align: z.enum(["left", "center", "right"]).optional(),
+    letterSpacing: z.number().int().min(0).max(10).optional(),
+    offset: z.number().int().min(-MAX_GRID_COLS).max(MAX_GRID_COLS).optional(),
+    level: z
+      .union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)])
+      .optional(),
+    cols: z.number().int().min(MIN_GRID_COLS).max(MAX_GRID_COLS).optional(),
+  });
+
+  router.post(
+    "/render-text",
+    validateBody(renderTextSchema),
+    controller.renderText
+  );
+
+  return router;
+}
@@ -0,0 +1,167 @@
+import { spawn } from "node:child_process";
+import { constants as fsConstants } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Writable } from "node:stream";
+import type { RepoDownloadFormat } from "../../../shared/src/types";
+import { runGit } from "../infra/gitClient";
+import { ConflictError, InternalError } from "../utils/errors";
+import { resolveExistingRepo } from "./historyService";
+
+/**
+ * A prepared repository download: the response metadata and the command
+ * whose stdout is the file.
+ */
+export interface RepoDownload {
+  /** File name suggested to the client. */
+  fileName: string;
+  /** Response content type. */
+  contentType: string;
+  /** Executable to run. */
+  command: string;
+  /** Command arguments. */
+  args: string[];
+  /** Working directory of the command. */
+  cwd: string;
+}
+
+/**
+ * Resolves a generated repository under the output root and prepares the
+ * command that writes it in the requested format.
+ *
+ * @param folderName Repository folder name.
+ * @param outputRoot Output root.
+ * @param format Download format.
+ * @return Prepared download.
+ */
+export async function prepareRepoDownload(
+  folderName: string,
+  outputRoot: string,
+  format: RepoDownloadFormat
+): Promise<RepoDownload> {
+  const repoPath = await resolveExistingRepo(folderName, outputRoot);
+  const download = await buildRepoDownload(folderName, repoPath, format);
+  // Checked up front: once streaming starts, a failure can only cut the
+  // response short.
+  if (!(await isCommandAvailable(download.command))) {
+    throw new InternalError(
+      `The ${format} format needs the \`${download.command}\` command, which is not installed on the server.`
+    );
+  }
+  return download;
+}
+
+/**
+ * Builds the command that writes a repository in a download format.
+ *
+ * @param folderName Repository folder name.
+ * @param repoPath Repository path.
+ * @param format Download format.
+ * @return Prepared download.
+ */
+async function buildRepoDownload(
+  folderName: string,
+  repoPath: string,
+  format: RepoDownloadFormat
+): Promise<RepoDownload> {
+  switch (format) {
+    case "bundle": {
+      const refs = await runGit(repoPath, ["for-each-ref", "--count=1"]);
+      if (!refs) {
+        throw new ConflictError(`Repository has no commits to bundle: ${folderName}.`);
+      }
+      return {
+        fileName: `${folderName}.bundle`,
+        contentType: "application/octet-stream",
+        command: "git",
+        args: ["bundle", "create", "--quiet", "-", "--all"],
+        cwd: repoPath,
+      };
+    }
+    case "tar.gz":
+      return {
+        fileName: `${folderName}.tar.gz`,
+        contentType: "application/gzip",
+        command: "tar",
+        args: ["-czf", "-", "--", folderName],
+        cwd: path.dirname(repoPath),
+      };
+    case "zip":
+      // -y stores symlinks as links so they cannot pull in files outside the repo.
+      return {
+        fileName: `${folderName}.zip`,
+        contentType: "application/zip",
+        command: "zip",
+        args: ["-qry", "-", "--", folderName],
+        cwd: path.dirname(repoPath),
+      };
+  }
+}
+
+/**
+ * Checks whether an executable can be found on `PATH`.
+ *
+ * @param command Executable name.
+ * @return True when the executable exists.
+ */
+async function isCommandAvailable(command: string): Promise<boolean> {
+  const directories = (process.env.PATH ?? "").split(path.delimiter);
+  for (const directory of directories.filter(Boolean)) {
+    try {
+      await fs.access(path.join(directory, command), fsConstants.X_OK);
+      return true;
+    } catch {
+      continue;
+    }
+  }
+  return false;
+}
+
+/**
+ * Runs a prepared download and pipes its output. The command is stopped if
+ * the output closes early, e.g. when the client disconnects. The output is
+ * only ended when the command succeeds; otherwise it is destroyed so a
+ * partial file is never delivered as complete.
+ *
+ * @param download Prepared download.
+ * @param output Destination stream.
+ */
+export function streamRepoDownload(
+  download: RepoDownload,
+  output: Writable
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(download.command, download.args, { cwd: download.cwd });
+    let stderr = "";
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString("utf8");
+    });
+    child.stdout.pipe(output, { end: false });
+
+    const stop = () => {
+      if (!output.writableFinished) {
+        child.kill();
+      }
+    };
+    output.on("close", stop);
+    child.on("error", (error) => {
+      output.off("close", stop);
+      reject(new InternalError(`Unable to run ${download.command}: ${error.message}`));
+    });
+    child.on("close", (code) => {
+      output.off("close", stop);
+      if (code === 0) {
+        output.end();
+        resolve();
+      } else {
+        output.destroy();
+        reject(
+          new InternalError(
+            `Failed to create ${download.fileName}.`,
+            stderr.trim() || undefined
+          )
+        );
+      }
+    });
+  });
+}
@@ -1,84 +1,134 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { randomInt } from "../utils/random";
+import type { ContentGeneratorConfig } from "../../../shared/src/types";
+import {
+  ContentGenerator,
+  CorpusFile,
+  createContentGenerator,
+  FileChange,
+} from "../domain/contentGenerators";
+import { ValidationError } from "../utils/errors";
+import { createRng } from "../utils/random";
+import { assertSafeFolderName, isSafeRelativePath } from "../utils/validation";
+
+const MAX_CORPUS_FILES = 1000;
+const MAX_CORPUS_BYTES = 5 * 1024 * 1024;
 
 /**
- * Represents a mutation to the dump file.
+ * Inputs for preparing a content generator.
  */
-export interface DumpMutation {
-  /** Timestamp for the mutation. */
-  timestamp: string;
-  /** Commit index for the day. */
-  commitIndex: number;
-  /** A random payload string. */
-  payload: string;
+export interface ContentGeneratorOptions {
+  /** Seed shared by the whole generation run. */
+  seed: string;
+  /** Repository-relative file or folder the generator writes to. */
+  contentPath: string;
+  /** Number of commits that will be written. */
+  totalCommits: number;
+  /** Root that corpus folders are resolved within. */
+  outputRoot: string;
 }
 
 /**
- * Ensures the dump file exists with initial content.
+ * Creates the requested content generator, loading corpus files from disk
+ * when needed.
  *
- * @param repoPath Repository path.
- * @return Absolute path to the dump file.
+ * @param config Generator selection and options.
+ * @param options Seed, content path and commit count.
+ * @return Content generator.
  */
-export async function ensureDumpFile(repoPath: string): Promise<string> {
-  const filePath = path.join(repoPath, "dump.txt");
-  const header = [
-    "# Draw-on-Git-History",
-    "# This file is mutated to create commit activity.",
-    "",
-  ].join("\n");
-  await fs.writeFile(filePath, header, { encoding: "utf8" });
-  return filePath;
+export async function prepareContentGenerator(
+  config: ContentGeneratorConfig,
+  options: ContentGeneratorOptions
+): Promise<ContentGenerator> {
+  const corpusFiles =
+    config.name === "corpus"
+      ? await loadCorpusFiles(config.folderName, options.outputRoot)
+      : undefined;
+
+  return createContentGenerator(config, {
+    rng: createRng(`${options.seed}:mutations`),
+    contentPath: options.contentPath,
+    totalCommits: options.totalCommits,
+    corpusFiles,
+  });
 }
 
 /**
- * Appends a mutation line to the dump file.
+ * Writes file changes into a working tree.
  *
- * @param filePath Absolute path to the dump file.
- * @param mutation Mutation payload.
+ * @param repoPath Repository path.
+ * @param changes Changed files with their full contents.
  */
-export async function appendDumpMutation(
-  filePath: string,
-  mutation: DumpMutation
+export async function writeFileChanges(
+  repoPath: string,
+  changes: FileChange[]
 ): Promise<void> {
-  const line = `${mutation.timestamp} :: ${mutation.commitIndex} :: ${mutation.payload}\n`;
-  await fs.appendFile(filePath, line, { encoding: "utf8" });
+  for (const change of changes) {
+    const filePath = path.join(repoPath, change.path);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, change.contents, { encoding: "utf8" });
+  }
 }
 
 /**
- * Builds a random mutation payload.
+ * Reads the text files of a corpus folder, sorted by path. `.git` folders,
+ * binary files and paths Git cannot safely take are skipped.
  *
- * @param rng Random generator.
- * @param dateLabel Date label for traceability.
- * @param commitIndex Commit index.
- * @return Mutation payload.
+ * @param folderName Corpus folder name under the output root.
+ * @param outputRoot Output root.
+ * @return Corpus files.
  */
-export function buildMutation(
-  rng: () => number,
-  dateLabel: string,
-  commitIndex: number
-): DumpMutation {
-  const token = generateToken(rng, 16);
-  return {
-    timestamp: new Date().toISOString(),
-    commitIndex,
-    payload: `${dateLabel}::${commitIndex}::${token}`,
+async function loadCorpusFiles(
+  folderName: string,
+  outputRoot: string
+): Promise<CorpusFile[]> {
+  assertSafeFolderName(folderName);
+  const rootPath = path.join(outputRoot, folderName);
+  try {
+    const stats = await fs.stat(rootPath);
+    if (!stats.isDirectory()) {
+      throw new Error("Not a directory.");
+    }
+  } catch {
+    throw new ValidationError(`Corpus folder not found: ${folderName}.`);
+  }
+
+  const files: CorpusFile[] = [];
+  let totalBytes = 0;
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(rootPath, relativeDir), {
+      withFileTypes: true,
+    });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (entry.name !== ".git") {
+          await walk(relativePath);
+        }
+        continue;
+      }
+      if (!entry.isFile() || !isSafeRelativePath(relativePath)) {
+        continue;
+      }
+
+      const buffer = await fs.readFile(path.join(rootPath, relativePath));
+      if (buffer.length === 0 || buffer.includes(0)) {
+        continue;
+      }
+      totalBytes += buffer.length;
+      if (files.length >= MAX_CORPUS_FILES || totalBytes > MAX_CORPUS_BYTES) {
+        throw new ValidationError(
+          `Corpus exceeds ${MAX_CORPUS_FILES} files or ${MAX_CORPUS_BYTES / 1024 / 1024} MB.`
+        );
+      }
+      files.push({ path: relativePath, contents: buffer.toString("utf8") });
+    }
   };
-}
+  await walk("");
 
-/**
- * Generates an alphanumeric token.
- *
- * @param rng Random generator.
- * @param length Token length.
- * @return Token string.
- */
-function generateToken(rng: () => number, length: number): string {
-  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
-  let result = "";
-  for (let i = 0; i < length; i += 1) {
-    const index = randomInt(rng, 0, alphabet.length - 1);
-    result += alphabet[index];
+  if (files.length === 0) {
+    throw new ValidationError(`Corpus folder has no text files: ${folderName}.`);
   }
-  return result;
+  return files;
 }
@@ -1,18 +1,58 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import type {
+  ActivityProfile,
+  ActivityProfileName,
+  AuthorInfo,
   CommitPlanEntry,
   CommitPlanSummary,
+  ContentGeneratorConfig,
+  ExistingRepoTarget,
+  GitBackend,
+  SigningReport,
+  VerificationReport,
 } from "../../../shared/src/types";
-import { runGit } from "../infra/gitClient";
-import { ConflictError, InternalError } from "../utils/errors";
-import { createRng, randomInt } from "../utils/random";
-import { formatGitTimestamp } from "../utils/date";
+import { scheduleCommitTimes } from "../domain/commitTimes";
 import {
-  appendDumpMutation,
-  buildMutation,
-  ensureDumpFile,
+  ContentCommit,
+  ContentGenerator,
+  FileChange,
+  resolveContentPath,
+} from "../domain/contentGenerators";
+import { buildPlannedCounts } from "../domain/verification";
+import { runGit, streamGit } from "../infra/gitClient";
+import { toGitRawDate } from "../utils/date";
+import {
+  CancelledError,
+  ConflictError,
+  InternalError,
+  ValidationError,
+} from "../utils/errors";
+import { getServerTimeZone } from "../utils/timeZone";
+import {
+  assertSafeIdentity,
+  assertSafeRelativePath,
+} from "../utils/validation";
+import {
+  prepareContentGenerator,
+  writeFileChanges,
 } from "./fileMutationService";
+import {
+  buildRepoMetadata,
+  hashGenerationInputs,
+  METADATA_FILE_NAME,
+  readRepoCheckpoint,
+  writeRepoMetadata,
+} from "./repoMetadataService";
+import {
+  CommitSigningKey,
+  configureRepoSigning,
+  getSigningEnv,
+  verifyCommitSignatures,
+} from "./signingService";
+import { verifyBranch } from "./verificationService";
+
+const CHECKPOINT_INTERVAL = 200;
 
 /**
  * Options for generating a git history repository.
@@ -28,39 +68,177 @@ export interface GenerateRepoOptions {
   authorName: string;
   /** Default author email. */
   authorEmail: string;
+  /** Team members referenced by the plan's `authorIndexes`. */
+  authors?: AuthorInfo[];
+  /** Committer of every commit; defaults to each commit's author. */
+  committer?: AuthorInfo;
   /** Optional seed for deterministic timestamps. */
   randomSeed?: string;
+  /** IANA time zone commits are authored in; defaults to the server's zone. */
+  timeZone?: string;
+  /** Activity profile for commit times; `daytime` when omitted. */
+  activityProfile?: ActivityProfileName | ActivityProfile;
+  /** How commits are written; defaults to `fast-import`. */
+  backend?: GitBackend;
+  /** Existing repository branch to write to instead of a new repository. */
+  target?: ExistingRepoTarget;
+  /** Generator for the file changes of each commit; defaults to `dump`. */
+  contentGenerator?: ContentGeneratorConfig;
+  /** Repository-relative file or folder the generator writes to. */
+  contentPath?: string;
+  /** Root that corpus folders are resolved within; defaults to the parent of `repoPath`. */
+  outputRoot?: string;
+  /** Key to sign commits with; requires the per-commit backend. */
+  signing?: CommitSigningKey;
+  /**
+   * Continues an interrupted run in the existing repository from its
+   * checkpoint instead of creating a new one.
+   */
+  resume?: boolean;
   /** When true, skips Git commands. */
   dryRun?: boolean;
+  /**
+   * Stops writing between commits when aborted. The partial output is removed
+   * unless the abort reason is a `CancelledError` with `keepPartial` set.
+   */
+  signal?: AbortSignal;
   /** Optional progress callback. */
   onProgress?: (progress: number, message?: string) => void;
 }
 
 /**
- * Creates a Git repository with commit history matching the plan.
+ * Outcome of a generation run.
+ */
+export interface GenerationResult {
+  /** Short git log sample of the written branch. */
+  gitLogSample: string[];
+  /** Branch the commits were written to. */
+  branch: string;
+  /** Number of commits added. */
+  commitsAdded: number;
+  /** Signature verification results, when commits were signed. */
+  signing?: SigningReport;
+  /** Per-day comparison of the branch with the plan; omitted for dry runs. */
+  verification?: VerificationReport;
+}
+
+/**
+ * A single commit to write.
+ */
+export interface PendingCommit extends ContentCommit {
+  message: string;
+  author: AuthorInfo;
+  committer: AuthorInfo;
+}
+
+/**
+ * Where and how fast-import writes commits.
+ */
+export interface FastImportTarget {
+  /** Fully qualified ref to write. */
+  ref: string;
+  /** Parent of the first commit; omitted for a root commit. */
+  from?: string;
+  /** Extra files added by the first commit. */
+  initialFiles: Array<[string, string]>;
+}
+
+/**
+ * Creates a Git repository, or a branch in an existing one, with commit
+ * history matching the plan.
  *
  * @param options Generation options.
- * @return Short git log sample.
+ * @return Git log sample, branch, number of commits added and verification.
  */
 export async function generateRepository(
   options: GenerateRepoOptions
-): Promise<string[]> {
+): Promise<GenerationResult> {
   const {
     repoPath,
     plan,
     summary,
     authorName,
     authorEmail,
+    authors,
+    committer,
     randomSeed,
+    timeZone,
+    activityProfile,
+    signing,
+    backend = signing ? "per-commit" : "fast-import",
+    target,
+    contentGenerator = { name: "dump" },
+    outputRoot = path.dirname(repoPath),
+    resume,
     dryRun,
+    signal,
     onProgress,
   } = options;
 
-  await assertRepoDoesNotExist(repoPath);
+  const contentPath = resolveContentPath(contentGenerator, options.contentPath);
+  assertSafeRelativePath(contentPath);
+  // Identities go into commit headers verbatim, so a stray newline could
+  // inject fast-import commands.
+  for (const identity of [
+    { name: authorName, email: authorEmail },
+    ...(authors ?? []),
+    ...(committer ? [committer] : []),
+  ]) {
+    assertSafeIdentity(identity);
+  }
+  if (signing && target) {
+    throw new ValidationError(
+      "Signed commits can only be written to new repositories."
+    );
+  }
+  if (signing && backend === "fast-import") {
+    throw new ValidationError(
+      "git fast-import cannot sign commits. Use the per-commit backend."
+    );
+  }
+  if (resume && target) {
+    throw new ValidationError("resume is only available for new repositories.");
+  }
+  let baseCommit: string | undefined;
+  if (target) {
+    if (backend === "per-commit") {
+      throw new ValidationError(
+        "The per-commit backend can only create new repositories."
+      );
+    }
+    if (summary.totalCommits === 0) {
+      throw new ValidationError("The plan has no commits to add.");
+    }
+    baseCommit = await prepareExistingTarget(repoPath, target, contentPath);
+  } else {
+    if (contentPath === METADATA_FILE_NAME) {
+      throw new ValidationError(
+        `contentPath cannot be ${METADATA_FILE_NAME} in a new repository.`
+      );
+    }
+    if (!resume) {
+      await assertRepoDoesNotExist(repoPath);
+    }
+  }
+  const branch = target?.branch ?? "main";
+
+  const schedule = scheduleCommitTimes(plan, {
+    randomSeed,
+    timeZone: timeZone ?? getServerTimeZone(),
+    activityProfile,
+  });
+  const seed = randomSeed ?? `${summary.firstGridDate}:${summary.lastGridDate}`;
+  const generator = await prepareContentGenerator(contentGenerator, {
+    seed,
+    contentPath,
+    totalCommits: summary.totalCommits,
+    outputRoot,
+  });
 
   if (dryRun) {
-    return [];
+    return { gitLogSample: [], branch, commitsAdded: 0 };
   }
+  signal?.throwIfAborted();
 
   const totalCommits = summary.totalCommits;
   let completedCommits = 0;
@@ -79,47 +257,154 @@ export async function generateRepository(
     lastPercent = percent;
     onProgress(percent, message);
   };
+  const onCommitWritten = () => {
+    completedCommits += 1;
+    reportProgress("Writing commits");
+  };
 
-  reportProgress("Initializing repository", true);
-
-  await fs.mkdir(repoPath, { recursive: true });
-  await runGit(repoPath, ["init", "-b", "main"]);
-  await runGit(repoPath, ["config", "user.name", authorName]);
-  await runGit(repoPath, ["config", "user.email", authorEmail]);
-
-  await writeRepoMetadata(repoPath, summary);
-  const dumpFilePath = await ensureDumpFile(repoPath);
-  await runGit(repoPath, ["add", "history.json"]);
+  const defaultAuthor = { name: authorName, email: authorEmail };
+  const commits: PendingCommit[] = plan.flatMap((entry, entryIndex) =>
+    schedule.timestamps[entryIndex].map((timestamp, i) => {
+      const authorIndex = entry.authorIndexes?.[i];
+      const author =
+        (authorIndex !== undefined ? authors?.[authorIndex] : undefined) ??
+        defaultAuthor;
+      return {
+        message:
+          entry.messages?.[i] ?? `chore(history): ${entry.date} #${i + 1}`,
+        date: entry.date,
+        commitIndex: i + 1,
+        timestamp,
+        author,
+        committer: committer ?? author,
+      };
+    })
+  );
 
-  reportProgress("Writing commits", true);
+  const plannedCounts = buildPlannedCounts(plan);
+  let writtenCommits = 0;
+  if (target) {
+    reportProgress("Writing commits", true);
+    await writeCommitsFastImport(
+      repoPath,
+      commits,
+      generator,
+      { ref: `refs/heads/${branch}`, from: baseCommit, initialFiles: [] },
+      onCommitWritten,
+      signal
+    );
+  } else {
+    const metadata = buildRepoMetadata(summary, plannedCounts);
+    const planHash = hashGenerationInputs({
+      commits,
+      summary,
+      seed,
+      contentGenerator,
+      contentPath,
+    });
+    let tip: string | undefined;
 
-  const seed = randomSeed ?? `${summary.firstGridDate}:${summary.lastGridDate}`;
-  const rng = createRng(`${seed}:mutations`);
+    if (resume) {
+      reportProgress("Checking existing commits", true);
+      ({ tip, writtenCommits } = await prepareResume(
+        repoPath,
+        branch,
+        commits,
+        generator,
+        { planHash, seed }
+      ));
+      completedCommits = writtenCommits;
+    } else {
+      reportProgress("Initializing repository", true);
 
-  for (const entry of plan) {
-    if (entry.commitCount <= 0) {
-      continue;
+      await fs.mkdir(repoPath, { recursive: true });
+      await runGit(repoPath, ["init", "-b", branch]);
+      await runGit(repoPath, ["config", "user.name", authorName]);
+      await runGit(repoPath, ["config", "user.email", authorEmail]);
+      if (signing) {
+        await configureRepoSigning(repoPath, signing, [
+          ...new Set([
+            authorEmail,
+            ...commits.map((commit) => commit.committer.email),
+          ]),
+        ]);
+      }
     }
 
-    const commitTimes = buildCommitTimes(entry.date, entry.commitCount, rng);
-    for (let i = 0; i < commitTimes.length; i += 1) {
-      const commitDate = commitTimes[i];
-      const timestamp = formatGitTimestamp(commitDate);
-      const mutation = buildMutation(rng, entry.date, i + 1);
-      await appendDumpMutation(dumpFilePath, mutation);
-      await runGit(repoPath, ["add", "dump.txt"]);
-      await runGit(
+    if (tip) {
+      await runGit(repoPath, ["reset", "--hard", "--quiet"]);
+    } else {
+      await writeRepoMetadata(repoPath, metadata);
+      await runGit(repoPath, ["add", METADATA_FILE_NAME]);
+    }
+    // The working tree copy carries the checkpoint; commits keep `metadata`.
+    const saveCheckpoint = () => {
+      const last = commits[completedCommits - 1];
+      return writeRepoMetadata(
         repoPath,
-        ["commit", "-m", `chore(history): ${entry.date} #${i + 1}`, "--date", timestamp],
-        {
-          ...process.env,
-          GIT_AUTHOR_DATE: timestamp,
-          GIT_COMMITTER_DATE: timestamp,
-        }
+        buildRepoMetadata(summary, plannedCounts, {
+          planHash,
+          seed,
+          commitsWritten: completedCommits,
+          lastCompleted: last
+            ? { date: last.date, index: last.commitIndex }
+            : undefined,
+        })
       );
-      completedCommits += 1;
-      reportProgress("Writing commits");
+    };
+    await saveCheckpoint();
+
+    reportProgress("Writing commits", true);
+
+    for (
+      let start = writtenCommits;
+      start < commits.length && !signal?.aborted;
+      start += CHECKPOINT_INTERVAL
+    ) {
+      const batch = commits.slice(start, start + CHECKPOINT_INTERVAL);
+      if (backend === "per-commit") {
+        await writeCommitsPerCommit(
+          repoPath,
+          batch,
+          generator,
+          signing ? getSigningEnv(signing) : {},
+          onCommitWritten,
+          signal
+        );
+      } else {
+        await writeCommitsFastImport(
+          repoPath,
+          batch,
+          generator,
+          {
+            ref: `refs/heads/${branch}`,
+            from: tip,
+            initialFiles: start === 0 ? [[METADATA_FILE_NAME, metadata]] : [],
+          },
+          onCommitWritten,
+          signal
+        );
+        if (completedCommits > 0) {
+          tip = await runGit(repoPath, ["rev-parse", `refs/heads/${branch}`]);
+        }
+      }
+      await saveCheckpoint();
+    }
+
+    if (backend === "fast-import" && completedCommits > writtenCommits) {
+      await runGit(repoPath, ["reset", "--hard", "--quiet"]);
     }
+    // Kept partial runs stay resumable; finished runs match the commit.
+    if (signal?.aborted) {
+      await saveCheckpoint();
+    } else {
+      await writeRepoMetadata(repoPath, metadata);
+    }
+  }
+
+  if (signal?.aborted) {
+    await cleanUpCancelledRun(repoPath, target ? branch : undefined, signal.reason);
+    throw signal.reason;
   }
 
   if (totalCommits === 0 && onProgress) {
@@ -128,77 +413,367 @@ export async function generateRepository(
     onProgress(100, "Finalizing");
   }
 
-  return getGitLogSample(repoPath);
+  return {
+    gitLogSample: await getGitLogSample(repoPath, branch),
+    branch,
+    commitsAdded: commits.length - writtenCommits,
+    verification: await verifyBranch(repoPath, {
+      branch,
+      baseRef: baseCommit,
+      plannedCounts,
+    }),
+    ...(signing
+      ? {
+          signing: await verifyCommitSignatures(
+            repoPath,
+            branch,
+            commits.length,
+            signing
+          ),
+        }
+      : {}),
+  };
 }
 
 /**
- * Builds a list of timestamps within a day.
+ * Checks that an existing repository can receive a new branch and resolves
+ * the commit the branch starts from.
  *
- * @param isoDate Date string.
- * @param count Number of commits.
- * @param rng Random generator.
- * @return Ordered list of Date objects.
+ * @param repoPath Repository path.
+ * @param target Target branch settings.
+ * @param contentPath Repository-relative file or folder the generator writes to.
+ * @return Base commit for `branch` mode, undefined for `orphan`.
  */
-function buildCommitTimes(
-  isoDate: string,
-  count: number,
-  rng: () => number
-): Date[] {
-  const startHour = 9;
-  const endHour = 20;
-  const start = new Date(`${isoDate}T${String(startHour).padStart(2, "0")}:00:00`);
-  const secondsRange = (endHour - startHour) * 60 * 60;
+async function prepareExistingTarget(
+  repoPath: string,
+  target: ExistingRepoTarget,
+  contentPath: string
+): Promise<string | undefined> {
+  try {
+    await fs.access(path.join(repoPath, ".git"));
+  } catch {
+    throw new ValidationError(`Repository not found: ${repoPath}.`);
+  }
+
+  const status = await runGit(repoPath, [
+    "status",
+    "--porcelain",
+    "--untracked-files=no",
+  ]);
+  if (status) {
+    throw new ConflictError(
+      "Repository has uncommitted changes. Commit or stash them first."
+    );
+  }
 
-  if (count <= 0) {
-    return [];
+  const isValidBranch = await gitSucceeds(repoPath, [
+    "check-ref-format",
+    `refs/heads/${target.branch}`,
+  ]);
+  if (!isValidBranch) {
+    throw new ValidationError(`Invalid branch name: ${target.branch}.`);
+  }
+  if (
+    await gitSucceeds(repoPath, [
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      `refs/heads/${target.branch}`,
+    ])
+  ) {
+    throw new ConflictError(`Branch already exists: ${target.branch}.`);
   }
 
-  if (secondsRange <= 0) {
-    return [start];
+  if (target.mode === "orphan") {
+    return undefined;
   }
 
-  if (count === 1) {
-    const offsetSeconds = randomInt(rng, 0, Math.max(secondsRange - 1, 0));
-    const commitDate = new Date(start.getTime());
-    commitDate.setSeconds(commitDate.getSeconds() + offsetSeconds);
-    return [commitDate];
+  const baseRef = target.baseRef ?? "HEAD";
+  let baseCommit: string;
+  try {
+    baseCommit = await runGit(repoPath, [
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      "--end-of-options",
+      `${baseRef}^{commit}`,
+    ]);
+  } catch {
+    throw new ValidationError(`Base ref not found: ${baseRef}.`);
+  }
+
+  const contentExists = await gitSucceeds(repoPath, [
+    "cat-file",
+    "-e",
+    `${baseCommit}:${contentPath}`,
+  ]);
+  if (contentExists) {
+    throw new ValidationError(
+      `${contentPath} already exists on ${baseRef}. Choose another contentPath.`
+    );
   }
 
-  const times: Date[] = [];
-  for (let i = 0; i < count; i += 1) {
-    const slotStart = Math.floor((i * secondsRange) / count);
-    const slotEnd = Math.floor(((i + 1) * secondsRange) / count);
-    const maxOffset = Math.max(slotStart, slotEnd - 1);
-    const offsetSeconds =
-      maxOffset > slotStart ? randomInt(rng, slotStart, maxOffset) : slotStart;
-    const commitDate = new Date(start.getTime());
-    commitDate.setSeconds(commitDate.getSeconds() + offsetSeconds);
-    times.push(commitDate);
+  return baseCommit;
+}
+
+/**
+ * Runs a Git command and reports whether it exited successfully.
+ *
+ * @param repoPath Repository path.
+ * @param args Git arguments.
+ * @return True on exit code 0.
+ */
+async function gitSucceeds(repoPath: string, args: string[]): Promise<boolean> {
+  try {
+    await runGit(repoPath, args);
+    return true;
+  } catch {
+    return false;
   }
+}
 
-  return times;
+/**
+ * Writes commits by updating the generated files in the working tree and
+ * running `git add` and `git commit` for each one.
+ *
+ * @param repoPath Repository path.
+ * @param commits Commits to write.
+ * @param generator Content generator for the file changes.
+ * @param env Extra environment for `git commit`, e.g. for signing.
+ * @param onCommitWritten Called after each commit.
+ * @param signal Stops before the next commit when aborted.
+ */
+async function writeCommitsPerCommit(
+  repoPath: string,
+  commits: PendingCommit[],
+  generator: ContentGenerator,
+  env: NodeJS.ProcessEnv,
+  onCommitWritten: () => void,
+  signal?: AbortSignal
+): Promise<void> {
+  for (const commit of commits) {
+    if (signal?.aborted) {
+      return;
+    }
+    const changes = generator.next(commit);
+    await writeFileChanges(repoPath, changes);
+    await runGit(repoPath, ["add", "--", ...changes.map((change) => change.path)]);
+    await runGit(
+      repoPath,
+      ["commit", "-m", commit.message, "--date", commit.timestamp],
+      {
+        ...process.env,
+        ...env,
+        GIT_AUTHOR_NAME: commit.author.name,
+        GIT_AUTHOR_EMAIL: commit.author.email,
+        GIT_COMMITTER_NAME: commit.committer.name,
+        GIT_COMMITTER_EMAIL: commit.committer.email,
+        GIT_AUTHOR_DATE: commit.timestamp,
+        GIT_COMMITTER_DATE: commit.timestamp,
+      }
+    );
+    onCommitWritten();
+  }
 }
 
 /**
- * Writes a metadata file describing the generated history.
+ * Streams all commits into a single `git fast-import` process. Produces the
+ * same objects as the per-commit backend and never touches the working tree.
  *
  * @param repoPath Repository path.
- * @param summary Commit summary.
+ * @param commits Commits to write.
+ * @param generator Content generator for the file changes.
+ * @param target Ref, parent and files to write.
+ * @param onCommitWritten Called after each commit is streamed.
+ * @param signal Stops before the next commit when aborted; commits already
+ * streamed are still written.
  */
-async function writeRepoMetadata(
+export async function writeCommitsFastImport(
   repoPath: string,
-  summary: CommitPlanSummary
+  commits: PendingCommit[],
+  generator: ContentGenerator,
+  target: FastImportTarget,
+  onCommitWritten: () => void,
+  signal?: AbortSignal
 ): Promise<void> {
-  const metadataPath = path.join(repoPath, "history.json");
-  const payload = JSON.stringify(
-    {
-      generatedAt: new Date().toISOString(),
-      summary,
-    },
-    null,
-    2
+  const stream = streamGit(repoPath, ["fast-import", "--quiet"]);
+  let finished = false;
+
+  try {
+    for (let i = 0; i < commits.length; i += 1) {
+      if (signal?.aborted) {
+        break;
+      }
+      const commit = commits[i];
+      const date = toGitRawDate(commit.timestamp);
+      const { author, committer } = commit;
+      const files: Array<[string, string]> = [
+        ...(i === 0 ? target.initialFiles : []),
+        ...generator
+          .next(commit)
+          .map((change): [string, string] => [change.path, change.contents]),
+      ];
+
+      const command = [
+        `commit ${target.ref}\n`,
+        `author ${author.name} <${author.email}> ${date}\n`,
+        `committer ${committer.name} <${committer.email}> ${date}\n`,
+        formatFastImportData(`${commit.message}\n`),
+        i === 0 && target.from ? `from ${target.from}\n` : "",
+        ...files.map(
+          ([fileName, contents]) =>
+            `M 100644 inline ${fileName}\n${formatFastImportData(contents)}`
+        ),
+        "\n",
+      ].join("");
+
+      await stream.write(command).catch(rethrowFastImportError);
+      onCommitWritten();
+    }
+    await stream.end().catch(rethrowFastImportError);
+    finished = true;
+  } finally {
+    // Anything that stops the loop early must not leave git waiting on stdin.
+    if (!finished) {
+      stream.abort();
+    }
+  }
+}
+
+/**
+ * Reports a failure of the `git fast-import` process itself.
+ *
+ * @param error Error from the process stream.
+ */
+function rethrowFastImportError(error: unknown): never {
+  throw new InternalError(
+    "git fast-import failed.",
+    error instanceof Error ? error.message : undefined
   );
-  await fs.writeFile(metadataPath, payload, { encoding: "utf8" });
+}
+
+/**
+ * Removes the output of a cancelled run: the new repository, or the branch
+ * created in an existing one. Kept when the cancellation asks for it.
+ *
+ * @param repoPath Repository path.
+ * @param targetBranch Branch created in an existing repository, if any.
+ * @param reason Abort reason.
+ */
+async function cleanUpCancelledRun(
+  repoPath: string,
+  targetBranch: string | undefined,
+  reason: unknown
+): Promise<void> {
+  if (reason instanceof CancelledError && reason.keepPartial) {
+    return;
+  }
+  if (targetBranch === undefined) {
+    await fs.rm(repoPath, { recursive: true, force: true });
+  } else if (
+    await gitSucceeds(repoPath, [
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      `refs/heads/${targetBranch}`,
+    ])
+  ) {
+    await runGit(repoPath, ["update-ref", "-d", `refs/heads/${targetBranch}`]);
+  }
+}
+
+/**
+ * Checks the commits an interrupted run left on the branch against the plan
+ * and its checkpoint, and replays the content generator past them so the
+ * run can continue with the next commit.
+ *
+ * @param repoPath Repository path.
+ * @param branch Branch being generated.
+ * @param commits All planned commits.
+ * @param generator Content generator, advanced past the written commits.
+ * @param expected Plan hash and seed of the current request.
+ * @return Branch tip, if any commits exist, and the number already written.
+ */
+async function prepareResume(
+  repoPath: string,
+  branch: string,
+  commits: PendingCommit[],
+  generator: ContentGenerator,
+  expected: { planHash: string; seed: string }
+): Promise<{ tip?: string; writtenCommits: number }> {
+  const checkpoint = await readRepoCheckpoint(repoPath);
+  if (!checkpoint) {
+    throw new ConflictError(
+      `No generation checkpoint found in ${repoPath}; nothing to resume.`
+    );
+  }
+  if (checkpoint.seed !== expected.seed) {
+    throw new ConflictError("The checkpoint was recorded with a different seed.");
+  }
+  if (checkpoint.planHash !== expected.planHash) {
+    throw new ConflictError("The checkpoint was recorded for a different plan.");
+  }
+
+  const ref = `refs/heads/${branch}`;
+  let tip: string;
+  try {
+    tip = await runGit(repoPath, ["rev-parse", "--verify", "--quiet", ref]);
+  } catch {
+    return { writtenCommits: 0 };
+  }
+
+  const log = await runGit(repoPath, [
+    "log",
+    "--reverse",
+    "--date=raw",
+    "--format=%an <%ae>%x00%cn <%ce>%x00%ad%x00%B%x1e",
+    ref,
+  ]);
+  const written = log
+    .split("\x1e")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.length > 0);
+  if (written.length > commits.length) {
+    throw new ConflictError("The branch has more commits than the plan.");
+  }
+
+  let lastChanges: FileChange[] = [];
+  written.forEach((record, index) => {
+    const commit = commits[index];
+    const [author, committer, date, message] = record.split("\0");
+    if (
+      author !== `${commit.author.name} <${commit.author.email}>` ||
+      committer !== `${commit.committer.name} <${commit.committer.email}>` ||
+      date !== toGitRawDate(commit.timestamp) ||
+      message.trim() !== commit.message.trim()
+    ) {
+      throw new ConflictError(
+        `Commit ${index + 1} on ${branch} does not match the plan; cannot resume.`
+      );
+    }
+    lastChanges = generator.next(commit);
+  });
+
+  for (const change of lastChanges) {
+    const contents = await runGit(repoPath, ["cat-file", "blob", `${tip}:${change.path}`]);
+    if (contents !== change.contents.trim()) {
+      throw new ConflictError(
+        `${change.path} on ${branch} does not match the plan; cannot resume.`
+      );
+    }
+  }
+
+  return { tip, writtenCommits: written.length };
+}
+
+/**
+ * Formats a fast-import `data` command.
+ *
+ * @param contents Payload.
+ * @return Command including the payload and a trailing newline.
+ */
+function formatFastImportData(contents: string): string {
+  return `data ${Buffer.byteLength(contents, "utf8")}\n${contents}\n`;
 }
 
 /**
@@ -209,6 +784,11 @@ async function writeRepoMetadata(
 async function assertRepoDoesNotExist(repoPath: string): Promise<void> {
   try {
     await fs.access(repoPath);
+    if (await readRepoCheckpoint(repoPath)) {
+      throw new ConflictError(
+        `Repository path holds an interrupted generation: ${repoPath}. Retry with resume, or choose another folder name.`
+      );
+    }
     throw new ConflictError(
       `Repository path already exists: ${repoPath}. Choose another folder name.`
     );
@@ -224,11 +804,21 @@ async function assertRepoDoesNotExist(repoPath: string): Promise<void> {
  * Returns a short git log sample for display.
  *
  * @param repoPath Repository path.
+ * @param branch Branch to read.
  * @return List of log lines.
  */
-async function getGitLogSample(repoPath: string): Promise<string[]> {
+async function getGitLogSample(
+  repoPath: string,
+  branch: string
+): Promise<string[]> {
   try {
-    const output = await runGit(repoPath, ["--no-pager", "log", "-5", "--oneline"]);
+    const output = await runGit(repoPath, [
+      "--no-pager",
+      "log",
+      "-5",
+      "--oneline",
+      `refs/heads/${branch}`,
+    ]);
     return output ? output.split("\n") : [];
   } catch (error) {
     throw new InternalError("Unable to read git log after generation.");
@@ -0,0 +1,127 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  AnalyzeResponse,
+  BaselineHistory,
+  DailyCommitCounts,
+} from "../../../shared/src/types";
+import {
+  buildGridFromCounts,
+  DAILY_LOG_FORMAT,
+  parseDailyLog,
+  validateDailyCounts,
+} from "../domain/history";
+import { addDays, formatIsoDate } from "../utils/date";
+import { runGit } from "../infra/gitClient";
+import { ValidationError } from "../utils/errors";
+import { assertPathWithinRoot, assertSafeFolderName } from "../utils/validation";
+
+/**
+ * Reads per-day commit counts from an existing local repository.
+ *
+ * @param repoPath Repository path.
+ * @param authorEmail Optional author email filter.
+ * @return Commit counts keyed by ISO date.
+ */
+export async function readRepoDailyCounts(
+  repoPath: string,
+  authorEmail?: string
+): Promise<DailyCommitCounts> {
+  let output: string;
+  try {
+    output = await runGit(repoPath, [
+      "--no-pager",
+      "log",
+      `--format=${DAILY_LOG_FORMAT}`,
+      "--date=short",
+      "HEAD",
+    ]);
+  } catch (error) {
+    throw new ValidationError(
+      `Unable to read git history from ${path.basename(repoPath)}.`,
+      error instanceof Error ? error.message : undefined
+    );
+  }
+  return parseDailyLog(output, authorEmail);
+}
+
+/**
+ * Resolves a baseline history into per-day counts.
+ *
+ * @param baseline Baseline definition from the request.
+ * @param outputRoot Output root that repo baselines must live under.
+ * @return Commit counts keyed by ISO date.
+ */
+export async function resolveBaselineCounts(
+  baseline: BaselineHistory,
+  outputRoot: string
+): Promise<DailyCommitCounts> {
+  if (baseline.source === "counts") {
+    validateDailyCounts(baseline.counts);
+    return baseline.counts;
+  }
+
+  const repoPath = await resolveExistingRepo(baseline.folderName, outputRoot);
+  return readRepoDailyCounts(repoPath, baseline.authorEmail);
+}
+
+/**
+ * Reads a repository's history back into a grid.
+ *
+ * @param folderName Repository folder name under the output root.
+ * @param outputRoot Output root.
+ * @param startDate Date of the top-left cell.
+ * @param cols Number of week columns.
+ * @param authorEmail Optional author email filter.
+ * @return Analysis result.
+ */
+export async function analyzeRepository(
+  folderName: string,
+  outputRoot: string,
+  startDate: string,
+  cols: number,
+  authorEmail?: string
+): Promise<AnalyzeResponse> {
+  const repoPath = await resolveExistingRepo(folderName, outputRoot);
+  const counts = await readRepoDailyCounts(repoPath, authorEmail);
+  const { grid, gridCounts, intensityMap } = buildGridFromCounts(
+    counts,
+    startDate,
+    cols
+  );
+
+  return {
+    grid,
+    dateRange: {
+      startDate,
+      endDate: formatIsoDate(addDays(startDate, grid.rows * cols - 1)),
+    },
+    dailyCounts: gridCounts,
+    totalCommits: Object.values(gridCounts).reduce((sum, count) => sum + count, 0),
+    intensityMap,
+  };
+}
+
+/**
+ * Resolves a folder under the output root that must hold a Git repository.
+ *
+ * @param folderName Folder name.
+ * @param outputRoot Output root.
+ * @return Absolute repository path.
+ */
+export async function resolveExistingRepo(
+  folderName: string,
+  outputRoot: string
+): Promise<string> {
+  assertSafeFolderName(folderName);
+  const repoPath = path.join(outputRoot, folderName);
+  assertPathWithinRoot(repoPath, outputRoot);
+
+  try {
+    await fs.access(path.join(repoPath, ".git"));
+  } catch {
+    throw new ValidationError(`Repository not found: ${folderName}.`);
+  }
+
+  return repoPath;
+}
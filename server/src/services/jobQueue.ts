@@ -0,0 +1,123 @@
+/**
+ * Options for queueing one job.
+ */
+export interface EnqueueOptions {
+  /** Job id. */
+  id: string;
+  /** Resource the job needs exclusively, e.g. its repository path. */
+  lockKey: string;
+  /** Aborting removes the job from the queue if it has not started. */
+  signal?: AbortSignal;
+  /** Called with the 1-based queue position whenever it changes. */
+  onPositionChange?: (position: number) => void;
+}
+
+/**
+ * A queue that runs at most a fixed number of jobs at once and never runs
+ * two jobs with the same lock key together.
+ */
+export interface JobQueue {
+  /**
+   * Queues a task; it starts once a slot is free and its lock key is unused.
+   *
+   * @param options Queue options.
+   * @param task Task to run.
+   * @return Result of the task, or the abort reason if it was removed.
+   */
+  enqueue<T>(options: EnqueueOptions, task: () => Promise<T>): Promise<T>;
+  /**
+   * Returns the queue position of a waiting job.
+   *
+   * @param id Job id.
+   * @return 1-based position, or undefined when the job is not waiting.
+   */
+  getPosition(id: string): number | undefined;
+}
+
+interface QueueEntry {
+  id: string;
+  lockKey: string;
+  start: () => Promise<void>;
+  detach: () => void;
+  onPositionChange?: (position: number) => void;
+  position?: number;
+}
+
+/**
+ * Creates a job queue. Jobs start in order, except that a job waiting for a
+ * locked key lets later jobs with free keys go first.
+ *
+ * @param maxConcurrency Maximum number of jobs running at once.
+ * @return Job queue.
+ */
+export function createJobQueue(maxConcurrency: number): JobQueue {
+  const waiting: QueueEntry[] = [];
+  const lockedKeys = new Set<string>();
+  let running = 0;
+
+  const publishPositions = () => {
+    waiting.forEach((entry, index) => {
+      if (entry.position !== index + 1) {
+        entry.position = index + 1;
+        entry.onPositionChange?.(entry.position);
+      }
+    });
+  };
+
+  const drain = () => {
+    for (let index = 0; index < waiting.length && running < maxConcurrency; ) {
+      const entry = waiting[index];
+      if (lockedKeys.has(entry.lockKey)) {
+        index += 1;
+        continue;
+      }
+      waiting.splice(index, 1);
+      entry.detach();
+      running += 1;
+      lockedKeys.add(entry.lockKey);
+      void entry.start().finally(() => {
+        running -= 1;
+        lockedKeys.delete(entry.lockKey);
+        drain();
+      });
+    }
+    publishPositions();
+  };
+
+  return {
+    enqueue<T>(options: EnqueueOptions, task: () => Promise<T>): Promise<T> {
+      const { id, lockKey, signal, onPositionChange } = options;
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+
+        const entry: QueueEntry = {
+          id,
+          lockKey,
+          start: () => task().then(resolve, reject),
+          detach: () => signal?.removeEventListener("abort", onAbort),
+          onPositionChange,
+        };
+        function onAbort() {
+          const index = waiting.indexOf(entry);
+          if (index >= 0) {
+            waiting.splice(index, 1);
+            reject(signal?.reason);
+            publishPositions();
+          }
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        waiting.push(entry);
+        drain();
+      });
+    },
+
+    getPosition(id: string): number | undefined {
+      const index = waiting.findIndex((entry) => entry.id === id);
+      return index >= 0 ? index + 1 : undefined;
+    },
+  };
+}
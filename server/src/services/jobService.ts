@@ -0,0 +1,326 @@
+import type {
+  GenerateRequest,
+  GenerateResponse,
+  GenerationJob,
+  JobStatus,
+} from "../../../shared/src/types";
+import { appendJobRecord, readJobRecords, writeJobRecords } from "../infra/jobStore";
+import { ConflictError, InternalError } from "../utils/errors";
+import type { ProgressState } from "./progressService";
+
+/**
+ * Filters for listing jobs.
+ */
+export interface JobFilter {
+  /** Only jobs with this status. */
+  status?: JobStatus;
+  /** Only jobs for this repository folder. */
+  folderName?: string;
+  /** Maximum number of jobs to return. */
+  limit?: number;
+}
+
+const REDACTED = "***";
+
+const jobs = new Map<string, GenerationJob>();
+let storePath: string | undefined;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Returns the current time as an ISO timestamp.
+ *
+ * @return ISO timestamp.
+ */
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+/**
+ * Checks whether a job is still queued or running.
+ *
+ * @param job Job record.
+ * @return True when the job has not finished.
+ */
+function isActive(job: GenerationJob): boolean {
+  return job.status === "pending" || job.status === "running";
+}
+
+/**
+ * Replaces the signing key and push remote names in a job with `***`, so
+ * the store never names server keys or remotes.
+ *
+ * @param job Job record.
+ * @return Redacted job record.
+ */
+function redactJob(job: GenerationJob): GenerationJob {
+  const { request, result } = job;
+  return {
+    ...job,
+    request: {
+      ...request,
+      ...(request.signingKey !== undefined && { signingKey: REDACTED }),
+      ...(request.push?.remote !== undefined && {
+        push: { ...request.push, remote: REDACTED },
+      }),
+    },
+    ...(result && {
+      result: {
+        ...result,
+        ...(result.signing && {
+          signing: { ...result.signing, keyName: REDACTED },
+        }),
+        ...(result.push &&
+          request.push?.remote !== undefined && {
+            push: { ...result.push, remote: REDACTED },
+          }),
+      },
+    }),
+  };
+}
+
+/**
+ * Stores a redacted job snapshot and appends it to the store file.
+ *
+ * @param job Job snapshot.
+ * @return Stored snapshot.
+ */
+async function save(job: GenerationJob): Promise<GenerationJob> {
+  const record = redactJob(job);
+  jobs.set(record.id, record);
+  if (!storePath) {
+    return record;
+  }
+  const filePath = storePath;
+  // Appends are chained so snapshots land in the order they were taken; a
+  // failed append does not hold up the next one.
+  const write = pendingWrite.then(() => appendJobRecord(filePath, record));
+  pendingWrite = write.catch(() => undefined);
+  try {
+    await write;
+  } catch (error) {
+    throw new InternalError(
+      `Failed to record job ${record.id}.`,
+      error instanceof Error ? error.message : undefined
+    );
+  }
+  return record;
+}
+
+/**
+ * Records the outcome of a job.
+ *
+ * @param id Job id.
+ * @param status Final status.
+ * @param fields Result or error message.
+ * @return Job record, or null when unknown.
+ */
+async function finishJob(
+  id: string,
+  status: JobStatus,
+  fields: Pick<GenerationJob, "result" | "error">
+): Promise<GenerationJob | null> {
+  const base = jobs.get(id);
+  if (!base) {
+    return null;
+  }
+  const finishedAt = nowIso();
+  return save({
+    ...base,
+    ...fields,
+    status,
+    finishedAt,
+    durationMs:
+      Date.parse(finishedAt) - Date.parse(base.startedAt ?? base.createdAt),
+  });
+}
+
+/**
+ * Loads recorded jobs and starts persisting new ones to the store file.
+ * Jobs still pending or running were cut off by a restart and become
+ * `interrupted`; the file is then compacted to one line per job.
+ *
+ * @param filePath Store file path.
+ */
+export async function loadJobStore(filePath: string): Promise<void> {
+  const records = await readJobRecords(filePath);
+  const now = nowIso();
+  jobs.clear();
+  for (const job of records) {
+    jobs.set(
+      job.id,
+      redactJob(
+        isActive(job)
+          ? {
+              ...job,
+              status: "interrupted",
+              finishedAt: now,
+              error: "The server stopped before the job finished.",
+            }
+          : job
+      )
+    );
+  }
+  await writeJobRecords(filePath, [...jobs.values()]);
+  storePath = filePath;
+}
+
+/**
+ * Records a new pending job. A finished job with the same id is replaced.
+ *
+ * @param id Job id.
+ * @param request Generation request.
+ * @return Job record.
+ */
+export async function createJob(
+  id: string,
+  request: GenerateRequest
+): Promise<GenerationJob> {
+  const existing = jobs.get(id);
+  if (existing && isActive(existing)) {
+    throw new ConflictError(`A job with id ${id} is already queued or running.`);
+  }
+  try {
+    return await save({
+      id,
+      folderName: request.folderName,
+      status: "pending",
+      request,
+      createdAt: nowIso(),
+    });
+  } catch (error) {
+    // The job will not run, so it must not hold on to its id.
+    if (existing) {
+      jobs.set(id, existing);
+    } else {
+      jobs.delete(id);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Marks a pending job as running.
+ *
+ * @param id Job id.
+ * @return Job record, or null when unknown.
+ */
+export async function startJob(id: string): Promise<GenerationJob | null> {
+  const base = jobs.get(id);
+  if (!base) {
+    return null;
+  }
+  return save({ ...base, status: "running", startedAt: nowIso() });
+}
+
+/**
+ * Marks a job as complete.
+ *
+ * @param id Job id.
+ * @param result Generation response.
+ * @return Job record, or null when unknown.
+ */
+export function completeJob(
+  id: string,
+  result: GenerateResponse
+): Promise<GenerationJob | null> {
+  return finishJob(id, "complete", { result });
+}
+
+/**
+ * Marks a job as failed.
+ *
+ * @param id Job id.
+ * @param error Error message.
+ * @return Job record, or null when unknown.
+ */
+export function failJob(
+  id: string,
+  error: string
+): Promise<GenerationJob | null> {
+  return finishJob(id, "error", { error });
+}
+
+/**
+ * Marks a job as cancelled.
+ *
+ * @param id Job id.
+ * @param message Cancellation message.
+ * @return Job record, or null when unknown.
+ */
+export function cancelJob(
+  id: string,
+  message: string
+): Promise<GenerationJob | null> {
+  return finishJob(id, "cancelled", { error: message });
+}
+
+/**
+ * Returns a job by id.
+ *
+ * @param id Job id.
+ * @return Job record or null.
+ */
+export function getJob(id: string): GenerationJob | null {
+  return jobs.get(id) ?? null;
+}
+
+/**
+ * Lists jobs, newest first.
+ *
+ * @param filter Optional filters.
+ * @return Matching jobs.
+ */
+export function listJobs(filter: JobFilter = {}): GenerationJob[] {
+  const matches = [...jobs.values()]
+    .filter(
+      (job) =>
+        (!filter.status || job.status === filter.status) &&
+        (!filter.folderName || job.folderName === filter.folderName)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return filter.limit === undefined ? matches : matches.slice(0, filter.limit);
+}
+
+/**
+ * Describes a finished job as a progress state, for clients that ask for
+ * progress after the live state has been cleaned up.
+ *
+ * @param id Job id.
+ * @return Progress state, or null when the job is unknown or still active.
+ */
+export function getJobProgress(id: string): ProgressState | null {
+  const job = jobs.get(id);
+  if (!job || isActive(job)) {
+    return null;
+  }
+  switch (job.status) {
+    case "complete":
+      return {
+        id,
+        status: "complete",
+        progress: 100,
+        message:
+          job.result?.push?.pushed === false
+            ? "Generation complete; push failed"
+            : "Generation complete",
+        updatedAt: job.finishedAt ?? job.createdAt,
+      };
+    case "cancelled":
+      return {
+        id,
+        status: "cancelled",
+        progress: 0,
+        message: job.error,
+        updatedAt: job.finishedAt ?? job.createdAt,
+      };
+    default:
+      return {
+        id,
+        status: "error",
+        progress: 0,
+        message: "Generation failed",
+        error: job.error,
+        updatedAt: job.finishedAt ?? job.createdAt,
+      };
+  }
+}
@@ -1,11 +1,61 @@
 import type {
+  ActivityProfile,
+  ActivityProfileName,
+  AuthorContribution,
+  AuthorsConfig,
+  BudgetMode,
+  CommitDistribution,
   CommitIntensityMap,
+  CommitMessageConfig,
   CommitPlanEntry,
   CommitPlanSummary,
+  DailyCommitCounts,
   DateRange,
   GridPayload,
 } from "../../../shared/src/types";
-import { buildCommitPlan } from "../domain/commitPlan";
+import { assignAuthors } from "../domain/authors";
+import { calibrateIntensityMap } from "../domain/calibration";
+import { assignCommitMessages } from "../domain/commitMessages";
+import { buildCommitPlan, OverTargetDay } from "../domain/commitPlan";
+import { DstGapTime, scheduleCommitTimes } from "../domain/commitTimes";
+import { getServerTimeZone } from "../utils/timeZone";
+
+const MAX_LISTED_WARNING_ITEMS = 10;
+
+/**
+ * Inputs for building a plan.
+ */
+export interface CreatePlanOptions {
+  /** Grid payload. */
+  grid: GridPayload;
+  /** Date range. */
+  dateRange: DateRange;
+  /** Intensity map. */
+  intensityMap: CommitIntensityMap;
+  /** Optional seed for deterministic randomness. */
+  randomSeed?: string;
+  /** Optional commit-count distribution. */
+  distribution?: CommitDistribution;
+  /** Optional total commit budget. */
+  totalCommitBudget?: number;
+  /** Whether the budget is exact or a maximum. */
+  budgetMode?: BudgetMode;
+  /** IANA time zone commits are authored in; defaults to the server's zone. */
+  timeZone?: string;
+  /** Activity profile for commit times; `daytime` when omitted. */
+  activityProfile?: ActivityProfileName | ActivityProfile;
+  /** Commit message style; the default template when omitted. */
+  commitMessages?: CommitMessageConfig;
+  /** Optional team of authors to distribute commits among. */
+  authors?: AuthorsConfig;
+  /** Optional existing per-day counts for top-up planning. */
+  baselineCounts?: DailyCommitCounts;
+  /**
+   * When true, replaces the intensity map with per-level counts solved so
+   * each level lands in its GitHub quartile at the lowest volume.
+   */
+  calibrate?: boolean;
+}
 
 /**
  * Result of building a plan, including warnings that are safe for display.
@@ -14,41 +64,137 @@ export interface PlanResult {
   plan: CommitPlanEntry[];
   summary: CommitPlanSummary;
   warnings: string[];
+  /** Intensity map chosen by calibration, when requested. */
+  calibratedIntensityMap?: CommitIntensityMap;
+  /** Per-member totals, when a team of authors is set. */
+  authorContributions?: AuthorContribution[];
 }
 
 /**
  * Creates a commit plan and attaches UX-friendly warnings.
  *
- * @param grid Grid payload.
- * @param dateRange Date range.
- * @param intensityMap Intensity map.
- * @param randomSeed Optional seed for deterministic randomness.
+ * @param options Plan inputs.
  * @return Plan result.
  */
-export function createPlan(
-  grid: GridPayload,
-  dateRange: DateRange,
-  intensityMap: CommitIntensityMap,
-  randomSeed?: string
-): PlanResult {
-  const { plan, summary } = buildCommitPlan(
+export function createPlan(options: CreatePlanOptions): PlanResult {
+  const {
+    grid,
+    dateRange,
+    randomSeed,
+    distribution,
+    totalCommitBudget,
+    budgetMode,
+    timeZone,
+    activityProfile,
+    commitMessages,
+    authors,
+    baselineCounts,
+    calibrate,
+  } = options;
+  const calibration = calibrate
+    ? calibrateIntensityMap(grid, dateRange.startDate, baselineCounts)
+    : undefined;
+  const intensityMap = calibration?.intensityMap ?? options.intensityMap;
+
+  const build = buildCommitPlan(
     grid,
     dateRange,
     intensityMap,
-    randomSeed
+    {
+      randomSeed,
+      baselineCounts,
+      distribution,
+      totalCommitBudget,
+      budgetMode,
+    }
   );
 
+  const { summary, overTargetDays, levelsMerged } = build;
+  const seed = randomSeed ?? `${dateRange.startDate}:${dateRange.endDate}`;
+  const messagePlan = assignCommitMessages(build.plan, commitMessages, seed);
+  const authorAssignment = authors
+    ? assignAuthors(messagePlan, authors, seed)
+    : undefined;
+  const plan = authorAssignment?.plan ?? messagePlan;
+
+  const resolvedTimeZone = timeZone ?? getServerTimeZone();
+  const { dstGaps } = scheduleCommitTimes(plan, {
+    randomSeed,
+    timeZone: resolvedTimeZone,
+    activityProfile,
+  });
+
   const warnings: string[] = [];
+  if (calibration && calibration.mismatchCount > 0) {
+    warnings.push(
+      `Calibration could not place every level in its own GitHub quartile; ${calibration.mismatchCount} cell(s) will still render at a different level.`
+    );
+  }
+  if (levelsMerged) {
+    warnings.push(
+      `A budget of ${totalCommitBudget} commits is too small to keep every level distinct; some neighbouring levels share commit counts and will render alike.`
+    );
+  }
   if (summary.totalCommits > 2500) {
     warnings.push(
       "High commit volume detected. Consider lowering intensity levels if you want a subtle graph."
     );
   }
-  if (summary.activeDays < 30) {
+  if (!baselineCounts && summary.activeDays < 30) {
     warnings.push(
       "Very few active days. The graph may look sparse; increase some intensity levels if desired."
     );
   }
+  if (overTargetDays.length > 0) {
+    warnings.push(formatOverTargetWarning(overTargetDays));
+  }
+  if (dstGaps.length > 0) {
+    warnings.push(formatDstGapWarning(dstGaps, resolvedTimeZone));
+  }
+
+  return {
+    plan,
+    summary,
+    warnings,
+    ...(calibration ? { calibratedIntensityMap: calibration.intensityMap } : {}),
+    ...(authorAssignment
+      ? { authorContributions: authorAssignment.contributions }
+      : {}),
+  };
+}
+
+/**
+ * Formats a warning listing days that already exceed their target level.
+ *
+ * @param days Over-target days.
+ * @return Warning message.
+ */
+function formatOverTargetWarning(days: OverTargetDay[]): string {
+  const listed = days
+    .slice(0, MAX_LISTED_WARNING_ITEMS)
+    .map(
+      (day) =>
+        `${day.date} (level ${day.level}: ${day.existingCount} existing, max ${day.maxCount})`
+    )
+    .join(", ");
+  const remaining = days.length - MAX_LISTED_WARNING_ITEMS;
+  const suffix = remaining > 0 ? `, and ${remaining} more` : "";
+  return `${days.length} day(s) already have more commits than their level allows and will render darker than drawn: ${listed}${suffix}.`;
+}
 
-  return { plan, summary, warnings };
+/**
+ * Formats a warning listing commit times that fall into a DST gap.
+ *
+ * @param gaps DST gap hits.
+ * @param timeZone Time zone used for scheduling.
+ * @return Warning message.
+ */
+function formatDstGapWarning(gaps: DstGapTime[], timeZone: string): string {
+  const listed = gaps
+    .slice(0, MAX_LISTED_WARNING_ITEMS)
+    .map((gap) => `${gap.date} ${gap.localTime} -> ${gap.timestamp}`)
+    .join(", ");
+  const remaining = gaps.length - MAX_LISTED_WARNING_ITEMS;
+  const suffix = remaining > 0 ? `, and ${remaining} more` : "";
+  return `${gaps.length} planned commit time(s) do not exist in ${timeZone} because of a daylight saving change and will be shifted forward: ${listed}${suffix}.`;
 }
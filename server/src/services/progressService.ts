@@ -1,9 +1,20 @@
 import { EventEmitter } from "node:events";
+import { CancelledError } from "../utils/errors";
 
 /**
  * Status values for generation progress updates.
  */
-export type ProgressStatus = "pending" | "running" | "complete" | "error";
+export type ProgressStatus =
+  | "pending"
+  | "running"
+  | "complete"
+  | "error"
+  | "cancelled";
+
+/**
+ * Stages of a generation run.
+ */
+export type ProgressStage = "generating" | "pushing";
 
 /**
  * Progress payload emitted to listeners.
@@ -11,15 +22,30 @@ export type ProgressStatus = "pending" | "running" | "complete" | "error";
 export interface ProgressState {
   id: string;
   status: ProgressStatus;
+  stage?: ProgressStage;
+  /** 1-based queue position while the generation is pending. */
+  queuePosition?: number;
   progress: number;
   message?: string;
   error?: string;
   updatedAt: string;
 }
 
+/**
+ * A published progress state with its per-id event number.
+ */
+export interface ProgressEvent {
+  /** Event id, increasing by one per update of the same progress id. */
+  id: number;
+  state: ProgressState;
+}
+
 const CLEANUP_DELAY_MS = 10 * 60 * 1000;
+const EVENT_BUFFER_SIZE = 50;
 const emitter = new EventEmitter();
 const progressStore = new Map<string, ProgressState>();
+const progressEvents = new Map<string, ProgressEvent[]>();
+const cancellers = new Map<string, AbortController>();
 
 emitter.setMaxListeners(100);
 
@@ -33,12 +59,23 @@ function clampProgress(value: number): number {
 
 function publish(state: ProgressState): void {
   progressStore.set(state.id, state);
-  emitter.emit(state.id, state);
+  const events = progressEvents.get(state.id) ?? [];
+  const event: ProgressEvent = {
+    id: (events[events.length - 1]?.id ?? 0) + 1,
+    state,
+  };
+  events.push(event);
+  if (events.length > EVENT_BUFFER_SIZE) {
+    events.shift();
+  }
+  progressEvents.set(state.id, events);
+  emitter.emit(state.id, event);
 }
 
 function scheduleCleanup(id: string): void {
   const timeout = setTimeout(() => {
     progressStore.delete(id);
+    progressEvents.delete(id);
   }, CLEANUP_DELAY_MS);
   timeout.unref?.();
 }
@@ -53,6 +90,32 @@ export function getProgress(id: string): ProgressState | null {
   return progressStore.get(id) ?? null;
 }
 
+/**
+ * Returns the buffered events a (re)connecting client should receive. Only
+ * the most recent events are kept, so a client that was away for long gets
+ * the ones still buffered; each event carries the full state.
+ *
+ * @param id Progress id.
+ * @param lastEventId Id of the last event the client received, if any.
+ * @return Events newer than `lastEventId`, or just the latest event when the
+ * client has none or an id from before a restart; null when nothing was
+ * published for the id.
+ */
+export function getProgressReplay(
+  id: string,
+  lastEventId?: number
+): ProgressEvent[] | null {
+  const events = progressEvents.get(id);
+  const latest = events?.[events.length - 1];
+  if (!events || !latest) {
+    return null;
+  }
+  if (lastEventId === undefined || lastEventId > latest.id) {
+    return [latest];
+  }
+  return events.filter((event) => event.id > lastEventId);
+}
+
 /**
  * Ensures a progress record exists for an id.
  *
@@ -75,6 +138,26 @@ export function ensureProgress(id: string): ProgressState {
   return state;
 }
 
+/**
+ * Marks progress as waiting in the generation queue.
+ *
+ * @param id Progress id.
+ * @param position 1-based queue position.
+ * @return Progress state.
+ */
+export function queueProgress(id: string, position: number): ProgressState {
+  const state: ProgressState = {
+    id,
+    status: "pending",
+    queuePosition: position,
+    progress: 0,
+    message: `Queued (position ${position})`,
+    updatedAt: nowIso(),
+  };
+  publish(state);
+  return state;
+}
+
 /**
  * Marks progress as started.
  *
@@ -86,6 +169,7 @@ export function startProgress(id: string, message?: string): ProgressState {
   const state: ProgressState = {
     id,
     status: "running",
+    stage: "generating",
     progress: 0,
     message: message ?? "Starting generation",
     updatedAt: nowIso(),
@@ -94,6 +178,32 @@ export function startProgress(id: string, message?: string): ProgressState {
   return state;
 }
 
+/**
+ * Moves a running generation into a new stage and restarts its percentage.
+ *
+ * @param id Progress id.
+ * @param stage New stage.
+ * @param message Optional status message.
+ * @return Progress state.
+ */
+export function startProgressStage(
+  id: string,
+  stage: ProgressStage,
+  message?: string
+): ProgressState {
+  const base = ensureProgress(id);
+  const state: ProgressState = {
+    ...base,
+    status: "running",
+    stage,
+    progress: 0,
+    message: message ?? base.message,
+    updatedAt: nowIso(),
+  };
+  publish(state);
+  return state;
+}
+
 /**
  * Updates progress percentage and message.
  *
@@ -152,6 +262,7 @@ export function failProgress(id: string, error: string): ProgressState {
   const state: ProgressState = {
     ...base,
     status: "error",
+    queuePosition: undefined,
     error,
     message: "Generation failed",
     updatedAt: nowIso(),
@@ -161,16 +272,76 @@ export function failProgress(id: string, error: string): ProgressState {
   return state;
 }
 
+/**
+ * Marks progress as cancelled.
+ *
+ * @param id Progress id.
+ * @param message Optional status message.
+ * @return Progress state.
+ */
+export function cancelProgress(id: string, message?: string): ProgressState {
+  const base = ensureProgress(id);
+  const state: ProgressState = {
+    ...base,
+    status: "cancelled",
+    queuePosition: undefined,
+    message: message ?? "Generation cancelled",
+    updatedAt: nowIso(),
+  };
+  publish(state);
+  scheduleCleanup(id);
+  return state;
+}
+
+/**
+ * Registers a queued or running generation so it can be cancelled by id.
+ *
+ * @param id Progress id.
+ * @return Signal aborted with a `CancelledError` on cancellation.
+ */
+export function registerCancellation(id: string): AbortSignal {
+  const controller = new AbortController();
+  cancellers.set(id, controller);
+  return controller.signal;
+}
+
+/**
+ * Stops accepting cancellation for an id.
+ *
+ * @param id Progress id.
+ */
+export function releaseCancellation(id: string): void {
+  cancellers.delete(id);
+}
+
+/**
+ * Asks a running generation to stop before its next commit.
+ *
+ * @param id Progress id.
+ * @param keepPartial Whether to keep the commits written so far.
+ * @return True when a running generation was signalled.
+ */
+export function requestCancellation(id: string, keepPartial: boolean): boolean {
+  const controller = cancellers.get(id);
+  if (!controller || controller.signal.aborted) {
+    return false;
+  }
+  controller.abort(new CancelledError("Generation cancelled.", keepPartial));
+  const base = ensureProgress(id);
+  publish({ ...base, message: "Cancelling", updatedAt: nowIso() });
+  return true;
+}
+
 /**
  * Subscribes to progress updates for an id.
  *
  * @param id Progress id.
- * @param listener Callback invoked with updates.
+ * @param listener Callback invoked with each published event.
  * @return Cleanup function.
  */
 export function subscribeProgress(
   id: string,
-  listener: (state: ProgressState) => void
+  listener: (event: ProgressEvent) => void
 ): () => void {
   emitter.on(id, listener);
   return () => emitter.off(id, listener);
@@ -0,0 +1,176 @@
+import path from "node:path";
+import type { PushReport, PushRequest } from "../../../shared/src/types";
+import { AppConfig } from "../config/config";
+import { runGit } from "../infra/gitClient";
+import { ConflictError, ValidationError } from "../utils/errors";
+import { assertPathWithinRoot } from "../utils/validation";
+
+const REMOTE_NAME = "origin";
+
+/**
+ * A push remote resolved for one generation run.
+ */
+export interface PushRemote {
+  /** Allowlist name or local path, safe to report. */
+  label: string;
+  /** URL to push to; may embed credentials. */
+  url: string;
+}
+
+/**
+ * Resolves a push request against the server allowlist, or to a bare
+ * repository under the output root when local remotes are allowed.
+ *
+ * @param push Push request.
+ * @param config App configuration.
+ * @param outputRoot Resolved output root.
+ * @return Push remote.
+ */
+export async function resolvePushRemote(
+  push: PushRequest,
+  config: AppConfig,
+  outputRoot: string
+): Promise<PushRemote> {
+  if ((push.remote === undefined) === (push.localPath === undefined)) {
+    throw new ValidationError("push needs exactly one of remote or localPath.");
+  }
+
+  if (push.remote !== undefined) {
+    const url = Object.prototype.hasOwnProperty.call(
+      config.pushRemotes,
+      push.remote
+    )
+      ? config.pushRemotes[push.remote]
+      : undefined;
+    if (!url) {
+      throw new ValidationError(`Unknown push remote: ${push.remote}.`);
+    }
+    return { label: push.remote, url };
+  }
+
+  const localPath = push.localPath as string;
+  if (!config.allowLocalPushRemotes) {
+    throw new ValidationError("Local push remotes are disabled on this server.");
+  }
+  const remotePath = path.resolve(outputRoot, localPath);
+  assertPathWithinRoot(remotePath, outputRoot);
+  let isBare = false;
+  try {
+    isBare =
+      (await runGit(remotePath, ["rev-parse", "--is-bare-repository"])) ===
+      "true";
+  } catch {
+    isBare = false;
+  }
+  if (!isBare) {
+    throw new ValidationError(`${localPath} is not a bare Git repository.`);
+  }
+  return { label: localPath, url: remotePath };
+}
+
+/**
+ * Ensures an existing repository's `origin`, if any, points at the remote,
+ * so pushing does not repoint it.
+ *
+ * @param repoPath Repository path.
+ * @param remote Push remote.
+ */
+export async function assertOriginAvailable(
+  repoPath: string,
+  remote: PushRemote
+): Promise<void> {
+  let originUrl: string;
+  try {
+    originUrl = await runGit(repoPath, ["remote", "get-url", REMOTE_NAME]);
+  } catch {
+    return;
+  }
+  if (originUrl !== stripUrlCredentials(remote.url)) {
+    throw new ConflictError(
+      `The repository already has an ${REMOTE_NAME} remote pointing elsewhere.`
+    );
+  }
+}
+
+/**
+ * Adds the remote as `origin` and pushes the branch with upstream tracking.
+ * Credentials are kept out of `.git/config` and of the report. Failures are
+ * reported instead of thrown, leaving the local repository as generated.
+ *
+ * @param repoPath Repository path.
+ * @param branch Branch to push.
+ * @param remote Push remote.
+ * @return Push report.
+ */
+export async function pushBranch(
+  repoPath: string,
+  branch: string,
+  remote: PushRemote
+): Promise<PushReport> {
+  const publicUrl = stripUrlCredentials(remote.url);
+  try {
+    const remotes = await runGit(repoPath, ["remote"]);
+    if (!remotes.split("\n").includes(REMOTE_NAME)) {
+      await runGit(repoPath, ["remote", "add", REMOTE_NAME, publicUrl]);
+    }
+    await runGit(
+      repoPath,
+      ["push", "--", remote.url, `refs/heads/${branch}:refs/heads/${branch}`],
+      { ...process.env, GIT_TERMINAL_PROMPT: "0" }
+    );
+    await runGit(repoPath, [
+      "update-ref",
+      `refs/remotes/${REMOTE_NAME}/${branch}`,
+      `refs/heads/${branch}`,
+    ]);
+    await runGit(repoPath, [
+      "branch",
+      `--set-upstream-to=${REMOTE_NAME}/${branch}`,
+      branch,
+    ]);
+    return { remote: remote.label, branch, pushed: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      remote: remote.label,
+      branch,
+      pushed: false,
+      error: redactCredentials(message, remote.url, publicUrl).trim(),
+    };
+  }
+}
+
+/**
+ * Removes the user info from a URL; other remote forms are returned as-is.
+ *
+ * @param url Remote URL.
+ * @return URL without credentials.
+ */
+function stripUrlCredentials(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.username && !parsed.password) {
+      return url;
+    }
+    parsed.username = "";
+    parsed.password = "";
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Removes credentials from text that may quote the remote URL.
+ *
+ * @param text Text to clean, e.g. a Git error.
+ * @param url Remote URL with credentials.
+ * @param publicUrl Remote URL without credentials.
+ * @return Cleaned text.
+ */
+function redactCredentials(text: string, url: string, publicUrl: string): string {
+  return text
+    .split(url)
+    .join(publicUrl)
+    .replace(/([a-z][a-z0-9+.-]*:\/\/)[^/@\s]+@/gi, "$1***@");
+}
@@ -0,0 +1,117 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  CommitPlanSummary,
+  DailyCommitCounts,
+} from "../../../shared/src/types";
+import { runGit } from "../infra/gitClient";
+
+/** Metadata file committed at the root of generated repositories. */
+export const METADATA_FILE_NAME = "history.json";
+
+/**
+ * Progress of an interrupted generation, kept in the working tree copy of
+ * the metadata file. The committed copy never contains it, so checkpoints do
+ * not change commit hashes.
+ */
+export interface GenerationCheckpoint {
+  /** Hash of everything that determines the generated commits. */
+  planHash: string;
+  /** Seed the run was generated with. */
+  seed: string;
+  /** Number of commits written so far. */
+  commitsWritten: number;
+  /** Date and per-day index of the last written commit, if any. */
+  lastCompleted?: { date: string; index: number };
+}
+
+/**
+ * Builds the metadata file describing the generated history. The committed
+ * contents only depend on the plan, so histories stay reproducible.
+ *
+ * @param summary Commit summary.
+ * @param dailyCounts Planned commits per day, used to verify the history later.
+ * @param checkpoint Checkpoint for the working tree copy, if any.
+ * @return File contents.
+ */
+export function buildRepoMetadata(
+  summary: CommitPlanSummary,
+  dailyCounts: DailyCommitCounts,
+  checkpoint?: GenerationCheckpoint
+): string {
+  return JSON.stringify(
+    checkpoint ? { summary, dailyCounts, checkpoint } : { summary, dailyCounts },
+    null,
+    2
+  );
+}
+
+/**
+ * Writes the metadata file to the working tree.
+ *
+ * @param repoPath Repository path.
+ * @param contents File contents.
+ */
+export async function writeRepoMetadata(
+  repoPath: string,
+  contents: string
+): Promise<void> {
+  await fs.writeFile(path.join(repoPath, METADATA_FILE_NAME), contents, {
+    encoding: "utf8",
+  });
+}
+
+/**
+ * Reads the checkpoint from the working tree metadata file.
+ *
+ * @param repoPath Repository path.
+ * @return Checkpoint, or undefined when the file is missing or has none.
+ */
+export async function readRepoCheckpoint(
+  repoPath: string
+): Promise<GenerationCheckpoint | undefined> {
+  try {
+    const contents = await fs.readFile(
+      path.join(repoPath, METADATA_FILE_NAME),
+      "utf8"
+    );
+    const parsed = JSON.parse(contents) as { checkpoint?: GenerationCheckpoint };
+    return parsed.checkpoint;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the planned per-day counts from the metadata file committed on a ref.
+ *
+ * @param repoPath Repository path.
+ * @param ref Ref whose metadata file to read.
+ * @return Planned counts, or undefined when the file is missing or has none.
+ */
+export async function readCommittedPlannedCounts(
+  repoPath: string,
+  ref: string
+): Promise<DailyCommitCounts | undefined> {
+  try {
+    const contents = await runGit(repoPath, [
+      "show",
+      `${ref}:${METADATA_FILE_NAME}`,
+    ]);
+    const parsed = JSON.parse(contents) as { dailyCounts?: DailyCommitCounts };
+    return parsed.dailyCounts;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hashes the inputs that determine a generated history.
+ *
+ * @param inputs JSON-serializable generation inputs.
+ * @return Hex SHA-256 digest.
+ */
+export function hashGenerationInputs(inputs: unknown): string {
+  return createHash("sha256").update(JSON.stringify(inputs)).digest("hex");
+}
@@ -0,0 +1,143 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  SigningFormat,
+  SigningReport,
+} from "../../../shared/src/types";
+import { AppConfig } from "../config/config";
+import { runGit } from "../infra/gitClient";
+import { InternalError, ValidationError } from "../utils/errors";
+
+const ALLOWED_SIGNERS_FILE = "allowed_signers";
+
+/**
+ * A signing key resolved for one generation run.
+ */
+export interface CommitSigningKey {
+  /** Allowlist name of the key. */
+  name: string;
+  /** Signature format. */
+  format: SigningFormat;
+  /** GPG key id for `openpgp`, private key path for `ssh`. */
+  key: string;
+  /** GNUPGHOME for `openpgp` keys, if configured. */
+  gnupgHome?: string;
+}
+
+/**
+ * Picks the signing key for a request: an explicitly named allowlisted key,
+ * or the server default when the request sets `sign: true`. Requests that do
+ * neither stay unsigned, so they can still use fast-import and `target`.
+ *
+ * @param request Request signing fields.
+ * @param config App configuration.
+ * @return Signing key, or undefined when commits stay unsigned.
+ */
+export function resolveSigningKey(
+  request: { sign?: boolean; signingKey?: string },
+  config: AppConfig
+): CommitSigningKey | undefined {
+  if (request.signingKey !== undefined && request.sign === false) {
+    throw new ValidationError("signingKey cannot be combined with sign: false.");
+  }
+  if (!request.sign && request.signingKey === undefined) {
+    return undefined;
+  }
+
+  const name = request.signingKey ?? config.defaultSigningKey;
+  if (name === undefined) {
+    throw new ValidationError("The server has no default signing key.");
+  }
+
+  const entry = Object.prototype.hasOwnProperty.call(config.signingKeys, name)
+    ? config.signingKeys[name]
+    : undefined;
+  if (!entry) {
+    throw new ValidationError(`Unknown signing key: ${name}.`);
+  }
+
+  return {
+    name,
+    format: entry.format,
+    key: entry.key,
+    gnupgHome: entry.format === "openpgp" ? config.gnupgHome : undefined,
+  };
+}
+
+/**
+ * Returns the environment Git needs to reach the signing key.
+ *
+ * @param signing Signing key.
+ * @return Environment overrides.
+ */
+export function getSigningEnv(signing: CommitSigningKey): NodeJS.ProcessEnv {
+  return signing.gnupgHome ? { GNUPGHOME: signing.gnupgHome } : {};
+}
+
+/**
+ * Configures a repository so `git commit` signs with the key. SSH keys also
+ * get an allowed-signers file inside `.git` so signatures can be verified.
+ *
+ * @param repoPath Repository path.
+ * @param signing Signing key.
+ * @param signerEmails Committer emails the key signs for.
+ */
+export async function configureRepoSigning(
+  repoPath: string,
+  signing: CommitSigningKey,
+  signerEmails: string[]
+): Promise<void> {
+  await runGit(repoPath, ["config", "gpg.format", signing.format]);
+  await runGit(repoPath, ["config", "user.signingkey", signing.key]);
+  await runGit(repoPath, ["config", "commit.gpgsign", "true"]);
+
+  if (signing.format === "ssh") {
+    let publicKey: string;
+    try {
+      publicKey = (await fs.readFile(`${signing.key}.pub`, "utf8")).trim();
+    } catch {
+      throw new InternalError(
+        `Public key not found for SSH signing key "${signing.name}".`
+      );
+    }
+    const signersPath = path.join(repoPath, ".git", ALLOWED_SIGNERS_FILE);
+    await fs.writeFile(signersPath, `${signerEmails.join(",")} ${publicKey}\n`, {
+      encoding: "utf8",
+    });
+    await runGit(repoPath, ["config", "gpg.ssh.allowedSignersFile", signersPath]);
+  }
+}
+
+/**
+ * Verifies the signatures of the newest commits on a branch. Good signatures
+ * from keys of unknown trust (`%G?` = `U`) count as verified.
+ *
+ * @param repoPath Repository path.
+ * @param branch Branch to check.
+ * @param commitCount Number of commits to check.
+ * @param signing Signing key the commits were made with.
+ * @return Verification report.
+ */
+export async function verifyCommitSignatures(
+  repoPath: string,
+  branch: string,
+  commitCount: number,
+  signing: CommitSigningKey
+): Promise<SigningReport> {
+  const output = await runGit(
+    repoPath,
+    ["log", "--format=%G?", "-n", String(commitCount), `refs/heads/${branch}`],
+    { ...process.env, ...getSigningEnv(signing) }
+  );
+  const statuses = output ? output.split("\n") : [];
+  const verifiedCommits = statuses.filter(
+    (status) => status === "G" || status === "U"
+  ).length;
+
+  return {
+    keyName: signing.name,
+    format: signing.format,
+    verifiedCommits,
+    unverifiedCommits: commitCount - verifiedCommits,
+  };
+}
@@ -0,0 +1,124 @@
+import type {
+  DailyCommitCounts,
+  VerificationReport,
+} from "../../../shared/src/types";
+import { DAILY_LOG_FORMAT, parseDailyLog } from "../domain/history";
+import { compareDailyCounts } from "../domain/verification";
+import { runGit } from "../infra/gitClient";
+import { ValidationError } from "../utils/errors";
+import { assertValidTimeZone } from "../utils/timeZone";
+import { readCommittedPlannedCounts } from "./repoMetadataService";
+
+/**
+ * Options for verifying a branch against its plan.
+ */
+export interface VerifyBranchOptions {
+  /** Branch to verify; defaults to `main`. */
+  branch?: string;
+  /** Commit the branch was generated on; commits reachable from it are skipped. */
+  baseRef?: string;
+  /** IANA time zone to bucket commits by; defaults to each commit's offset. */
+  timeZone?: string;
+  /** Planned counts; read from the committed metadata file when omitted. */
+  plannedCounts?: DailyCommitCounts;
+}
+
+/**
+ * Reads per-day author-date counts of the commits on a branch.
+ *
+ * @param repoPath Repository path.
+ * @param branch Branch to read.
+ * @param baseCommit Commit whose history is excluded, if any.
+ * @param timeZone Time zone to bucket commits by; each commit's own offset when omitted.
+ * @return Commit counts keyed by ISO date.
+ */
+export async function readBranchDailyCounts(
+  repoPath: string,
+  branch: string,
+  baseCommit?: string,
+  timeZone?: string
+): Promise<DailyCommitCounts> {
+  const ref = `refs/heads/${branch}`;
+  const output = await runGit(
+    repoPath,
+    [
+      "--no-pager",
+      "log",
+      `--format=${DAILY_LOG_FORMAT}`,
+      timeZone ? "--date=format-local:%Y-%m-%d" : "--date=short",
+      baseCommit ? `${baseCommit}..${ref}` : ref,
+      "--",
+    ],
+    timeZone ? { ...process.env, TZ: timeZone } : undefined
+  );
+  return parseDailyLog(output);
+}
+
+/**
+ * Compares the commits on a branch with the planned per-day counts.
+ *
+ * @param repoPath Repository path.
+ * @param options Verification options.
+ * @return Verification report.
+ */
+export async function verifyBranch(
+  repoPath: string,
+  options: VerifyBranchOptions
+): Promise<VerificationReport> {
+  const branch = options.branch ?? "main";
+  if (options.timeZone) {
+    assertValidTimeZone(options.timeZone);
+  }
+  const branchCommit = await resolveCommit(repoPath, `refs/heads/${branch}`);
+  if (!branchCommit) {
+    throw new ValidationError(`Branch not found: ${branch}.`);
+  }
+  let baseCommit: string | undefined;
+  if (options.baseRef) {
+    baseCommit = await resolveCommit(repoPath, options.baseRef);
+    if (!baseCommit) {
+      throw new ValidationError(`Base ref not found: ${options.baseRef}.`);
+    }
+  }
+
+  const plannedCounts =
+    options.plannedCounts ??
+    (await readCommittedPlannedCounts(repoPath, branchCommit));
+  if (!plannedCounts) {
+    throw new ValidationError(
+      `No planned counts found on ${branch}. Send the generation request to recompute the plan.`
+    );
+  }
+
+  const actualCounts = await readBranchDailyCounts(
+    repoPath,
+    branch,
+    baseCommit,
+    options.timeZone
+  );
+  return compareDailyCounts(plannedCounts, actualCounts);
+}
+
+/**
+ * Resolves a ref to a commit id.
+ *
+ * @param repoPath Repository path.
+ * @param ref Ref to resolve.
+ * @return Commit id, or undefined when the ref does not name a commit.
+ */
+async function resolveCommit(
+  repoPath: string,
+  ref: string
+): Promise<string | undefined> {
+  try {
+    return await runGit(repoPath, [
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      "--end-of-options",
+      `${ref}^{commit}`,
+    ]);
+  } catch {
+    return undefined;
+  }
+}
@@ -55,17 +55,23 @@ export function formatIsoDate(date: Date): string {
  * Formats a Date to a Git-compatible ISO timestamp with timezone offset.
  *
  * @param date Date instance.
+ * @param zoneOffsetMinutes Optional UTC offset to render the time in; defaults
+ * to the server's local offset.
  * @return Timestamp in `YYYY-MM-DDTHH:mm:ss+/-HHMM`.
  */
-export function formatGitTimestamp(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  const hours = String(date.getHours()).padStart(2, "0");
-  const minutes = String(date.getMinutes()).padStart(2, "0");
-  const seconds = String(date.getSeconds()).padStart(2, "0");
+export function formatGitTimestamp(
+  date: Date,
+  zoneOffsetMinutes?: number
+): string {
+  const offsetMinutes = zoneOffsetMinutes ?? -date.getTimezoneOffset();
+  const wall = new Date(date.getTime() + offsetMinutes * 60 * 1000);
+  const year = wall.getUTCFullYear();
+  const month = String(wall.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(wall.getUTCDate()).padStart(2, "0");
+  const hours = String(wall.getUTCHours()).padStart(2, "0");
+  const minutes = String(wall.getUTCMinutes()).padStart(2, "0");
+  const seconds = String(wall.getUTCSeconds()).padStart(2, "0");
 
-  const offsetMinutes = -date.getTimezoneOffset();
   const sign = offsetMinutes >= 0 ? "+" : "-";
   const absMinutes = Math.abs(offsetMinutes);
   const offsetHours = String(Math.floor(absMinutes / 60)).padStart(2, "0");
@@ -74,6 +80,35 @@ export function formatGitTimestamp(date: Date): string {
   return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${sign}${offsetHours}${offsetMins}`;
 }
 
+/**
+ * Converts a Git ISO timestamp into Git's raw date format.
+ *
+ * @param timestamp Timestamp in `YYYY-MM-DDTHH:mm:ss+/-HHMM`.
+ * @return Raw date, `<epoch seconds> <+/-HHMM>`.
+ */
+export function toGitRawDate(timestamp: string): string {
+  const match =
+    /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})([+-])(\d{2})(\d{2})$/.exec(
+      timestamp
+    );
+  if (!match) {
+    throw new ValidationError(`Invalid Git timestamp: ${timestamp}.`);
+  }
+  const [, year, month, day, hours, minutes, seconds, sign, offH, offM] = match;
+  const wallSeconds =
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds)
+    ) / 1000;
+  const offsetSeconds =
+    (sign === "+" ? 1 : -1) * (Number(offH) * 3600 + Number(offM) * 60);
+  return `${wallSeconds - offsetSeconds} ${sign}${offH}${offM}`;
+}
+
 /**
  * Computes the number of full days between two ISO dates.
  *
@@ -89,3 +124,14 @@ export function diffInDays(startDate: string, endDate: string): number {
   const diffMs = end.getTime() - start.getTime();
   return Math.floor(diffMs / (24 * 60 * 60 * 1000));
 }
+
+/**
+ * Returns the weekday of an ISO date.
+ *
+ * @param isoDate Date in `YYYY-MM-DD` format.
+ * @return Weekday, `0` = Sunday.
+ */
+export function getWeekday(isoDate: string): number {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
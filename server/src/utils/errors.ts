@@ -30,6 +30,19 @@ export class ValidationError extends AppError {
   }
 }
 
+/**
+ * Error thrown when a requested resource does not exist.
+ */
+export class NotFoundError extends AppError {
+  /**
+   * @param message Not-found error message.
+   * @param details Optional details.
+   */
+  constructor(message: string, details?: string) {
+    super(message, 404, details);
+  }
+}
+
 /**
  * Error thrown when a resource already exists.
  */
@@ -55,3 +68,20 @@ export class InternalError extends AppError {
     super(message, 500, details);
   }
 }
+
+/**
+ * Error thrown when a running generation is cancelled by the client.
+ */
+export class CancelledError extends AppError {
+  /** Whether the partially written history should be kept. */
+  readonly keepPartial: boolean;
+
+  /**
+   * @param message Cancellation message.
+   * @param keepPartial Whether to keep partial output.
+   */
+  constructor(message: string, keepPartial = false) {
+    super(message, 409);
+    this.keepPartial = keepPartial;
+  }
+}
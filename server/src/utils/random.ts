@@ -41,6 +41,36 @@ export function randomInt(
   return Math.floor(value * (clampedMax - clampedMin + 1)) + clampedMin;
 }
 
+/**
+ * Returns a deterministic index chosen in proportion to its weight.
+ *
+ * @param rng Random number generator.
+ * @param weights Non-negative weights with a positive sum.
+ * @return Chosen index.
+ */
+export function randomWeightedIndex(
+  rng: () => number,
+  weights: number[]
+): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!(total > 0)) {
+    throw new Error("Weights must have a positive sum.");
+  }
+  let remaining = rng() * total;
+  let lastPositive = 0;
+  for (let i = 0; i < weights.length; i += 1) {
+    if (weights[i] <= 0) {
+      continue;
+    }
+    lastPositive = i;
+    remaining -= weights[i];
+    if (remaining < 0) {
+      return i;
+    }
+  }
+  return lastPositive;
+}
+
 /**
  * Hashes a string into a 32-bit integer seed.
  *
@@ -0,0 +1,143 @@
+import { ValidationError } from "./errors";
+
+/**
+ * IANA time-zone helpers built on `Intl`, so commit times can be computed in
+ * the author's zone regardless of the server clock.
+ */
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * A wall-clock time resolved to an instant in a time zone.
+ */
+export interface ZonedTime {
+  /** Resolved instant. */
+  instant: Date;
+  /** UTC offset in minutes at that instant. */
+  offsetMinutes: number;
+  /** True when the wall-clock time does not exist (DST gap) and was shifted forward. */
+  inGap: boolean;
+}
+
+/**
+ * Returns the server's own IANA time zone.
+ *
+ * @return Time-zone name.
+ */
+export function getServerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Asserts that a time zone is a known IANA name.
+ *
+ * @param timeZone Time-zone name.
+ * @throws {ValidationError} When the zone is unknown.
+ */
+export function assertValidTimeZone(timeZone: string): void {
+  try {
+    getFormatter(timeZone);
+  } catch {
+    throw new ValidationError(`Unknown time zone: ${timeZone}.`);
+  }
+}
+
+/**
+ * Returns the UTC offset of a zone at a given instant.
+ *
+ * @param instantMs Instant in epoch milliseconds.
+ * @param timeZone Time-zone name.
+ * @return Offset in minutes (positive east of UTC).
+ */
+export function getTimeZoneOffsetMinutes(
+  instantMs: number,
+  timeZone: string
+): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instantMs));
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const wallMs = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second")
+  );
+  const flooredInstant = Math.floor(instantMs / 1000) * 1000;
+  return Math.round((wallMs - flooredInstant) / MS_PER_MINUTE);
+}
+
+/**
+ * Resolves a wall-clock time on a date to an instant in a time zone.
+ *
+ * Ambiguous times (DST fall-back) resolve to the earlier instant. Times that
+ * do not exist (DST spring-forward) are shifted forward by the gap length.
+ *
+ * @param isoDate Date in `YYYY-MM-DD` format.
+ * @param secondsOfDay Seconds since local midnight.
+ * @param timeZone Time-zone name.
+ * @return Resolved time.
+ */
+export function resolveZonedTime(
+  isoDate: string,
+  secondsOfDay: number,
+  timeZone: string
+): ZonedTime {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const wallMs = Date.UTC(year, month - 1, day) + secondsOfDay * 1000;
+  const offsetBefore = getTimeZoneOffsetMinutes(wallMs - 12 * MS_PER_HOUR, timeZone);
+  const offsetAfter = getTimeZoneOffsetMinutes(wallMs + 12 * MS_PER_HOUR, timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => wallMs - offset * MS_PER_MINUTE)
+    .filter(
+      (instantMs) =>
+        wallMs - getTimeZoneOffsetMinutes(instantMs, timeZone) * MS_PER_MINUTE ===
+        instantMs
+    )
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) {
+    const instantMs = candidates[0];
+    return {
+      instant: new Date(instantMs),
+      offsetMinutes: getTimeZoneOffsetMinutes(instantMs, timeZone),
+      inGap: false,
+    };
+  }
+
+  const shiftedMs = wallMs - offsetBefore * MS_PER_MINUTE;
+  return {
+    instant: new Date(shiftedMs),
+    offsetMinutes: getTimeZoneOffsetMinutes(shiftedMs, timeZone),
+    inGap: true,
+  };
+}
+
+/**
+ * Returns a cached formatter that prints wall-clock parts in a zone.
+ *
+ * @param timeZone Time-zone name.
+ * @return Formatter.
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
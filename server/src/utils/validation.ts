@@ -1,10 +1,16 @@
 import path from "node:path";
+import type { AuthorInfo } from "../../../shared/src/types";
+import type { AppConfig } from "../config/config";
 import { ValidationError } from "./errors";
 
 const SAFE_FOLDER_REGEX = /^[a-zA-Z0-9._-]+$/;
+// Angle brackets and control characters would end an identity early in a
+// commit header or a fast-import stream.
+const UNSAFE_IDENTITY_REGEX = /[<>\u0000-\u001f\u007f]/;
 
 /**
- * Validates a folder name to avoid path traversal.
+ * Validates a folder name to avoid path traversal. Names cannot start with a
+ * dash, so commands never read them as options.
  *
  * @param value Folder name.
  */
@@ -18,6 +24,71 @@ export function assertSafeFolderName(value: string): void {
       "Folder name may only contain letters, numbers, dots, underscores, and dashes."
     );
   }
+
+  if (value.startsWith("-")) {
+    throw new ValidationError("Folder name cannot start with a dash.");
+  }
+}
+
+/**
+ * Checks a repository-relative file path: forward slashes only, safe
+ * segments, and nothing inside `.git`.
+ *
+ * @param value Relative file path.
+ * @return True when the path is safe.
+ */
+export function isSafeRelativePath(value: string): boolean {
+  const segments = value.split("/");
+  return (
+    value.length > 0 &&
+    segments.every(
+      (segment) =>
+        SAFE_FOLDER_REGEX.test(segment) && segment !== "." && segment !== ".."
+    ) &&
+    segments[0] !== ".git"
+  );
+}
+
+/**
+ * Validates a repository-relative file path.
+ *
+ * @param value Relative file path.
+ */
+export function assertSafeRelativePath(value: string): void {
+  if (!isSafeRelativePath(value)) {
+    throw new ValidationError(
+      "File path must be relative, use forward slashes, and may only contain letters, numbers, dots, underscores, and dashes."
+    );
+  }
+}
+
+/**
+ * Checks one part of a commit identity (a name or an email) for characters
+ * that cannot appear in a commit header.
+ *
+ * @param value Name or email.
+ * @return True when the value is safe.
+ */
+export function isSafeIdentityPart(value: string): boolean {
+  return !UNSAFE_IDENTITY_REGEX.test(value);
+}
+
+/**
+ * Validates a commit identity.
+ *
+ * @param identity Name and email.
+ */
+export function assertSafeIdentity(identity: AuthorInfo): void {
+  if (
+    !identity.name.trim() ||
+    !identity.email.trim() ||
+    !isSafeIdentityPart(identity.name) ||
+    !isSafeIdentityPart(identity.email)
+  ) {
+    throw new ValidationError(
+      `Invalid author identity: ${JSON.stringify(`${identity.name} <${identity.email}>`)}. Names and emails cannot contain <, > or control characters.`
+    );
+  }
 }
 
 /**
@@ -38,3 +109,21 @@ export function assertPathWithinRoot(
     throw new ValidationError("Target path must be within the output root.");
   }
 }
+
+/**
+ * Resolves the output root based on server policy.
+ *
+ * @param requestedRoot Requested output root.
+ * @param config App configuration.
+ * @return Output root path.
+ */
+export function resolveOutputRoot(
+  requestedRoot: string | undefined,
+  config: AppConfig
+): string {
+  if (requestedRoot && !config.allowOutputRootOverride) {
+    throw new ValidationError("Output root override is disabled by server.");
+  }
+
+  return path.resolve(requestedRoot ?? config.outputRoot);
+}
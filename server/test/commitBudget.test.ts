@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type {
+  CommitLevel,
+  CommitPlanEntry,
+  GridPayload,
+} from "../../shared/src/types";
+import { loadConfig } from "../src/config/config";
+import { buildCommitPlan } from "../src/domain/commitPlan";
+import { ValidationError } from "../src/utils/errors";
+
+const COLS = 12;
+const grid: GridPayload = {
+  rows: 7,
+  cols: COLS,
+  levels: Array.from({ length: 7 }, (_, row) =>
+    Array.from({ length: COLS }, (_, col) => ((row * 3 + col) % 5) as CommitLevel)
+  ),
+};
+const dateRange = { startDate: "2024-01-07", endDate: "2024-03-30" };
+const intensityMap = loadConfig().intensityMap;
+const drawnLevels = grid.levels.flat().filter((level) => level > 0);
+// Smallest strictly ordered plan: level counts 1, 2, 3 and 4.
+const smallestOrderedBudget = drawnLevels.reduce<number>(
+  (sum, level) => sum + level,
+  0
+);
+
+/**
+ * Checks that every day of a level has more commits than every day of the
+ * level below it.
+ *
+ * @param plan Plan entries.
+ */
+function assertStrictLevelOrder(plan: CommitPlanEntry[]): void {
+  const bounds = new Map<CommitLevel, { min: number; max: number }>();
+  for (const { level, commitCount } of plan) {
+    const bound = bounds.get(level) ?? { min: Infinity, max: -Infinity };
+    bounds.set(level, {
+      min: Math.min(bound.min, commitCount),
+      max: Math.max(bound.max, commitCount),
+    });
+  }
+  const levels = [...bounds.keys()].sort();
+  levels.slice(1).forEach((level, index) => {
+    const lower = levels[index];
+    assert.ok(
+      bounds.get(level)!.min > bounds.get(lower)!.max,
+      `level ${level} (min ${bounds.get(level)!.min}) does not exceed level ${lower} (max ${bounds.get(lower)!.max})`
+    );
+  });
+}
+
+/**
+ * Builds the test plan with a budget.
+ *
+ * @param totalCommitBudget Commit budget.
+ * @param budgetMode Budget mode.
+ * @param randomSeed Seed.
+ * @return Plan build.
+ */
+function buildWithBudget(
+  totalCommitBudget: number,
+  budgetMode: "exact" | "max",
+  randomSeed = "budget"
+) {
+  return buildCommitPlan(grid, dateRange, intensityMap, {
+    randomSeed,
+    totalCommitBudget,
+    budgetMode,
+  });
+}
+
+test("exact budgets are hit and keep levels strictly ordered", () => {
+  for (const budget of [
+    smallestOrderedBudget,
+    smallestOrderedBudget + 37,
+    400,
+    1000,
+    3000,
+  ]) {
+    for (const randomSeed of ["a", "b", "c"]) {
+      const build = buildWithBudget(budget, "exact", randomSeed);
+
+      assert.equal(build.summary.totalCommits, budget);
+      assert.equal(build.levelsMerged, false);
+      assertStrictLevelOrder(build.plan);
+    }
+  }
+});
+
+test("max budgets only scale down and keep levels strictly ordered", () => {
+  const unbounded = buildCommitPlan(grid, dateRange, intensityMap, {
+    randomSeed: "budget",
+  });
+  const drawnTotal = unbounded.summary.totalCommits;
+
+  const roomy = buildWithBudget(drawnTotal + 100, "max");
+  assert.deepEqual(roomy.plan, unbounded.plan);
+
+  const tight = buildWithBudget(Math.floor(drawnTotal / 2), "max");
+  assert.equal(tight.summary.totalCommits, Math.floor(drawnTotal / 2));
+  assert.equal(tight.levelsMerged, false);
+  assertStrictLevelOrder(tight.plan);
+});
+
+test("budgets too small for strict ordering merge levels but keep every day", () => {
+  const budget = smallestOrderedBudget - 1;
+  const build = buildWithBudget(budget, "exact");
+
+  assert.equal(build.levelsMerged, true);
+  assert.equal(build.summary.totalCommits, budget);
+  for (const entry of build.plan) {
+    assert.ok(entry.level === 0 ? entry.commitCount === 0 : entry.commitCount >= 1);
+  }
+});
+
+test("budgets below one commit per drawn day are rejected", () => {
+  assert.throws(
+    () => buildWithBudget(drawnLevels.length - 1, "exact"),
+    ValidationError
+  );
+});
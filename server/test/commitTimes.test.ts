@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ActivityProfile, CommitPlanEntry } from "../../shared/src/types";
+import { scheduleCommitTimes } from "../src/domain/commitTimes";
+
+const SPRING_FORWARD_DAY: CommitPlanEntry = {
+  date: "2024-03-10",
+  level: 4,
+  commitCount: 40,
+};
+
+const EARLY_MORNING: ActivityProfile = {
+  windowsByWeekday: Array.from({ length: 7 }, () => [
+    { start: "01:00", end: "04:00" },
+  ]),
+};
+
+/**
+ * Parses a git timestamp (`YYYY-MM-DDTHH:mm:ss+hhmm`) into epoch milliseconds.
+ *
+ * @param timestamp Git timestamp.
+ * @return Epoch milliseconds.
+ */
+function toEpochMs(timestamp: string): number {
+  return Date.parse(timestamp.replace(/([+-]\d{2})(\d{2})$/, "$1:$2"));
+}
+
+/**
+ * Checks that timestamps never go backwards.
+ *
+ * @param timestamps Git timestamps.
+ */
+function assertChronological(timestamps: string[]): void {
+  const instants = timestamps.map(toEpochMs);
+  instants.slice(1).forEach((instant, index) => {
+    assert.ok(
+      instant >= instants[index],
+      `${timestamps[index + 1]} comes before ${timestamps[index]}`
+    );
+  });
+}
+
+test("times shifted out of a DST gap stay chronological", () => {
+  for (const [date, timeZone] of [
+    ["2024-03-10", "America/New_York"],
+    ["2024-03-31", "Europe/Berlin"],
+  ]) {
+    const schedule = scheduleCommitTimes([{ ...SPRING_FORWARD_DAY, date }], {
+      randomSeed: "dst",
+      timeZone,
+      activityProfile: EARLY_MORNING,
+    });
+
+    assert.ok(schedule.dstGaps.length > 0);
+    assert.equal(schedule.timestamps[0].length, SPRING_FORWARD_DAY.commitCount);
+    assertChronological(schedule.timestamps[0]);
+  }
+});
+
+test("DST gap times are reported with the time they were shifted to", () => {
+  const schedule = scheduleCommitTimes([SPRING_FORWARD_DAY], {
+    randomSeed: "dst",
+    timeZone: "America/New_York",
+    activityProfile: EARLY_MORNING,
+  });
+
+  assert.ok(schedule.dstGaps.length > 0);
+  for (const gap of schedule.dstGaps) {
+    assert.match(gap.localTime, /^02:/);
+    assert.match(gap.timestamp, /^2024-03-10T03:.*-0400$/);
+    assert.ok(schedule.timestamps[0].includes(gap.timestamp));
+  }
+});
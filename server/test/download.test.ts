@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import { after, before, test } from "node:test";
+import { runGit } from "../src/infra/gitClient";
+import {
+  prepareRepoDownload,
+  RepoDownload,
+  streamRepoDownload,
+} from "../src/services/downloadService";
+import { InternalError, ValidationError } from "../src/utils/errors";
+
+let outputRoot: string;
+
+before(async () => {
+  outputRoot = await fs.mkdtemp(path.join(os.tmpdir(), "download-test-"));
+  const repoPath = path.join(outputRoot, "drawing");
+  await fs.mkdir(repoPath);
+  await runGit(repoPath, ["init", "--quiet"]);
+  await fs.writeFile(path.join(repoPath, "dump.txt"), "hello\n");
+});
+
+after(async () => {
+  await fs.rm(outputRoot, { recursive: true, force: true });
+});
+
+/**
+ * Streams a download into memory.
+ *
+ * @param download Prepared download.
+ * @return Streamed bytes, and whether the output was ended.
+ */
+async function collect(
+  download: RepoDownload
+): Promise<{ bytes: Buffer; ended: boolean }> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  const ended = new Promise<boolean>((resolve) => {
+    output.on("end", () => resolve(true));
+  });
+  output.on("data", (chunk: Buffer) => chunks.push(chunk));
+  await streamRepoDownload(download, output);
+  return { bytes: Buffer.concat(chunks), ended: await ended };
+}
+
+test("folder names starting with a dash are rejected", async () => {
+  await fs.mkdir(path.join(outputRoot, "-T", ".git"), { recursive: true });
+
+  for (const format of ["zip", "tar.gz", "bundle"] as const) {
+    await assert.rejects(
+      prepareRepoDownload("-T", outputRoot, format),
+      ValidationError
+    );
+  }
+});
+
+test("archives are streamed and ended on success", async (t) => {
+  for (const format of ["zip", "tar.gz"] as const) {
+    let download: RepoDownload;
+    try {
+      download = await prepareRepoDownload("drawing", outputRoot, format);
+    } catch (error) {
+      t.diagnostic(`skipping ${format}: ${(error as Error).message}`);
+      continue;
+    }
+    const { bytes, ended } = await collect(download);
+
+    assert.ok(bytes.length > 0);
+    assert.ok(ended);
+  }
+});
+
+test("a failing command destroys the output instead of ending it", async () => {
+  const output = new PassThrough();
+  let ended = false;
+  output.on("data", () => undefined);
+  output.on("end", () => {
+    ended = true;
+  });
+
+  await assert.rejects(
+    streamRepoDownload(
+      {
+        fileName: "broken.zip",
+        contentType: "application/zip",
+        command: process.execPath,
+        args: ["-e", "process.stdout.write('partial'); process.exit(3)"],
+        cwd: outputRoot,
+      },
+      output
+    ),
+    InternalError
+  );
+
+  assert.ok(output.destroyed);
+  assert.equal(ended, false);
+});
@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type { CommitLevel, GitBackend } from "../../shared/src/types";
+import { loadConfig } from "../src/config/config";
+import { runGit } from "../src/infra/gitClient";
+import {
+  generateRepository,
+  PendingCommit,
+  writeCommitsFastImport,
+} from "../src/services/gitService";
+import { createPlan } from "../src/services/planService";
+import { ValidationError } from "../src/utils/errors";
+
+const COLS = 4;
+const levels = Array.from({ length: 7 }, (_, row) =>
+  Array.from({ length: COLS }, (_, col) => ((row + col) % 5) as CommitLevel)
+);
+const planResult = createPlan({
+  grid: { rows: 7, cols: COLS, levels },
+  dateRange: { startDate: "2024-03-03", endDate: "2024-03-30" },
+  intensityMap: loadConfig().intensityMap,
+  randomSeed: "fast-import",
+  timeZone: "Europe/Berlin",
+  authors: {
+    members: [
+      { name: "Ada Lovelace", email: "ada@example.com" },
+      { name: "Grace Hopper", email: "grace@example.com", weight: 2 },
+    ],
+    coAuthorProbability: 0.3,
+  },
+});
+
+let outputRoot: string;
+
+before(async () => {
+  outputRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fast-import-test-"));
+});
+
+after(async () => {
+  await fs.rm(outputRoot, { recursive: true, force: true });
+});
+
+/**
+ * Lists the live git processes started by this process. Relies on `/proc`.
+ *
+ * @return Process ids.
+ */
+async function listChildGitProcesses(): Promise<number[]> {
+  const pids: number[] = [];
+  for (const entry of await fs.readdir("/proc")) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+    let stat: string;
+    try {
+      stat = await fs.readFile(`/proc/${entry}/stat`, "utf8");
+    } catch {
+      continue;
+    }
+    const commEnd = stat.lastIndexOf(")");
+    const command = stat.slice(stat.indexOf("(") + 1, commEnd);
+    const [state, parentPid] = stat.slice(commEnd + 2).split(" ");
+    if (command === "git" && state !== "Z" && Number(parentPid) === process.pid) {
+      pids.push(Number(entry));
+    }
+  }
+  return pids;
+}
+
+/**
+ * Generates the test plan into a new repository.
+ *
+ * @param folderName Repository folder under the output root.
+ * @param backend Backend to write commits with.
+ * @return Commit id of the branch tip.
+ */
+async function generate(folderName: string, backend: GitBackend): Promise<string> {
+  const repoPath = path.join(outputRoot, folderName);
+  await generateRepository({
+    repoPath,
+    plan: planResult.plan,
+    summary: planResult.summary,
+    authorName: "Draw Bot",
+    authorEmail: "drawbot@example.com",
+    authors: [
+      { name: "Ada Lovelace", email: "ada@example.com" },
+      { name: "Grace Hopper", email: "grace@example.com" },
+    ],
+    randomSeed: "fast-import",
+    timeZone: "Europe/Berlin",
+    backend,
+  });
+  return runGit(repoPath, ["rev-parse", "refs/heads/main"]);
+}
+
+test("fast-import writes the same commits as the per-commit backend", async () => {
+  const fastImportTip = await generate("fast-import", "fast-import");
+  const perCommitTip = await generate("per-commit", "per-commit");
+
+  assert.equal(fastImportTip, perCommitTip);
+  const count = await runGit(path.join(outputRoot, "fast-import"), [
+    "rev-list",
+    "--count",
+    "main",
+  ]);
+  assert.equal(Number(count), planResult.summary.totalCommits);
+});
+
+test("fast-import output is identical across runs", async () => {
+  const first = await generate("repeat-1", "fast-import");
+  const second = await generate("repeat-2", "fast-import");
+
+  assert.equal(first, second);
+});
+
+test("identities that could inject fast-import commands are rejected", async () => {
+  const repoPath = path.join(outputRoot, "injected");
+  await assert.rejects(
+    generateRepository({
+      repoPath,
+      plan: planResult.plan,
+      summary: planResult.summary,
+      authorName: "X <x@example.com> 0 +0000\n\nreset refs/heads/evil",
+      authorEmail: "x@example.com",
+      timeZone: "UTC",
+    }),
+    ValidationError
+  );
+  await assert.rejects(fs.access(repoPath));
+});
+
+test("a throwing generator stops git fast-import and keeps its own error", async (t) => {
+  if (process.platform !== "linux") {
+    t.skip("needs /proc to find child processes");
+    return;
+  }
+  const repoPath = path.join(outputRoot, "throwing-generator");
+  await fs.mkdir(repoPath);
+  await runGit(repoPath, ["init", "--quiet"]);
+  const author = { name: "Draw Bot", email: "drawbot@example.com" };
+  const commits: PendingCommit[] = Array.from({ length: 5 }, (_, i) => ({
+    date: "2024-01-01",
+    commitIndex: i + 1,
+    timestamp: `2024-01-01T12:00:0${i}+0000`,
+    message: `commit ${i + 1}`,
+    author,
+    committer: author,
+  }));
+  const failure = new Error("generator failed");
+
+  await assert.rejects(
+    writeCommitsFastImport(
+      repoPath,
+      commits,
+      {
+        next(commit) {
+          if (commit.commitIndex === 3) {
+            throw failure;
+          }
+          return [{ path: "dump.txt", contents: `${commit.commitIndex}\n` }];
+        },
+      },
+      { ref: "refs/heads/main", initialFiles: [] },
+      () => undefined
+    ),
+    (error) => error === failure
+  );
+
+  for (let attempt = 0; attempt < 50; attempt += 1) {
+    if ((await listChildGitProcesses()).length === 0) {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  assert.deepEqual(await listChildGitProcesses(), []);
+});
@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type { CommitLevel, GitBackend } from "../../shared/src/types";
+import { loadConfig } from "../src/config/config";
+import { runGit } from "../src/infra/gitClient";
+import {
+  generateRepository,
+  GenerateRepoOptions,
+} from "../src/services/gitService";
+import { createPlan } from "../src/services/planService";
+import { METADATA_FILE_NAME } from "../src/services/repoMetadataService";
+import { CancelledError } from "../src/utils/errors";
+
+const SEED = "resume";
+
+let outputRoot: string;
+
+before(async () => {
+  outputRoot = await fs.mkdtemp(path.join(os.tmpdir(), "resume-test-"));
+});
+
+after(async () => {
+  await fs.rm(outputRoot, { recursive: true, force: true });
+});
+
+/**
+ * Builds generation options for a grid of the given width.
+ *
+ * @param cols Grid width in weeks.
+ * @param backend Backend to write commits with.
+ * @return Options without the repository path.
+ */
+function buildOptions(
+  cols: number,
+  backend: GitBackend
+): Omit<GenerateRepoOptions, "repoPath"> {
+  const levels = Array.from({ length: 7 }, (_, row) =>
+    Array.from({ length: cols }, (_, col) => (((row + col) % 4) + 1) as CommitLevel)
+  );
+  const { plan, summary } = createPlan({
+    grid: { rows: 7, cols, levels },
+    dateRange: {
+      startDate: "2024-01-07",
+      endDate: new Date(Date.UTC(2024, 0, 7 + 7 * cols - 1))
+        .toISOString()
+        .slice(0, 10),
+    },
+    intensityMap: loadConfig().intensityMap,
+    randomSeed: SEED,
+    timeZone: "UTC",
+  });
+  return {
+    plan,
+    summary,
+    authorName: "Draw Bot",
+    authorEmail: "drawbot@example.com",
+    randomSeed: SEED,
+    timeZone: "UTC",
+    backend,
+  };
+}
+
+/**
+ * Generates a repository, cancels it with `keepPartial` once progress passes
+ * a threshold, then resumes it.
+ *
+ * @param repoPath Repository path.
+ * @param options Generation options.
+ * @param cancelAtPercent Progress at which to cancel.
+ * @return Commits on `main` after the cancelled run.
+ */
+async function interruptAndResume(
+  repoPath: string,
+  options: Omit<GenerateRepoOptions, "repoPath">,
+  cancelAtPercent: number
+): Promise<number> {
+  const controller = new AbortController();
+  await assert.rejects(
+    generateRepository({
+      ...options,
+      repoPath,
+      signal: controller.signal,
+      onProgress: (percent) => {
+        if (percent >= cancelAtPercent && !controller.signal.aborted) {
+          controller.abort(new CancelledError("Generation cancelled.", true));
+        }
+      },
+    }),
+    CancelledError
+  );
+  const partialCount = Number(
+    await runGit(repoPath, ["rev-list", "--count", "main"])
+  );
+
+  const resumed = await generateRepository({ ...options, repoPath, resume: true });
+  assert.equal(resumed.commitsAdded, options.summary.totalCommits - partialCount);
+  return partialCount;
+}
+
+for (const [backend, cols] of [
+  ["fast-import", 10],
+  ["per-commit", 3],
+] as const) {
+  test(`a resumed ${backend} run matches an uninterrupted one`, async () => {
+    const options = buildOptions(cols, backend);
+    const fullPath = path.join(outputRoot, `${backend}-full`);
+    const resumedPath = path.join(outputRoot, `${backend}-resumed`);
+
+    await generateRepository({ ...options, repoPath: fullPath });
+    const partialCount = await interruptAndResume(resumedPath, options, 40);
+
+    assert.ok(partialCount > 0);
+    assert.ok(partialCount < options.summary.totalCommits);
+    assert.equal(
+      await runGit(resumedPath, ["rev-parse", "main"]),
+      await runGit(fullPath, ["rev-parse", "main"])
+    );
+    assert.equal(await runGit(resumedPath, ["status", "--porcelain"]), "");
+    assert.equal(
+      await fs.readFile(path.join(resumedPath, METADATA_FILE_NAME), "utf8"),
+      await fs.readFile(path.join(fullPath, METADATA_FILE_NAME), "utf8")
+    );
+  });
+}
+
+test("resume refuses a checkpoint recorded with a different seed", async () => {
+  const options = buildOptions(3, "fast-import");
+  const repoPath = path.join(outputRoot, "other-seed");
+  const controller = new AbortController();
+  await assert.rejects(
+    generateRepository({
+      ...options,
+      repoPath,
+      signal: controller.signal,
+      onProgress: (percent) => {
+        if (percent >= 40 && !controller.signal.aborted) {
+          controller.abort(new CancelledError("Generation cancelled.", true));
+        }
+      },
+    }),
+    CancelledError
+  );
+
+  await assert.rejects(
+    generateRepository({
+      ...options,
+      repoPath,
+      randomSeed: "another seed",
+      resume: true,
+    }),
+    { statusCode: 409 }
+  );
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import { promisify } from "node:util";
+import type { CommitLevel } from "../../shared/src/types";
+import { AppConfig, loadConfig } from "../src/config/config";
+import { generateRepository } from "../src/services/gitService";
+import { createPlan } from "../src/services/planService";
+import { resolveSigningKey } from "../src/services/signingService";
+import { ValidationError } from "../src/utils/errors";
+
+const execFileAsync = promisify(execFile);
+
+let tempRoot: string;
+let config: AppConfig;
+let sshKeygenMissing: string | false = false;
+
+before(async () => {
+  tempRoot = await fs.mkdtemp(path.join(os.tmpdir(), "signing-test-"));
+  const keyPath = path.join(tempRoot, "id_ed25519");
+  try {
+    await execFileAsync("ssh-keygen", [
+      "-q",
+      "-t",
+      "ed25519",
+      "-N",
+      "",
+      "-C",
+      "drawbot@example.com",
+      "-f",
+      keyPath,
+    ]);
+  } catch {
+    sshKeygenMissing = "ssh-keygen is not available";
+  }
+
+  const previous = { ...process.env };
+  process.env.SIGNING_KEY = keyPath;
+  process.env.SIGNING_FORMAT = "ssh";
+  delete process.env.SIGNING_KEYS;
+  try {
+    config = loadConfig();
+  } finally {
+    process.env = previous;
+  }
+});
+
+after(async () => {
+  await fs.rm(tempRoot, { recursive: true, force: true });
+});
+
+test("the default key is only used when a request asks to sign", () => {
+  assert.equal(resolveSigningKey({}, config), undefined);
+  assert.equal(resolveSigningKey({ sign: false }, config), undefined);
+  assert.equal(resolveSigningKey({ sign: true }, config)?.name, "default");
+  assert.equal(
+    resolveSigningKey({ signingKey: "default" }, config)?.format,
+    "ssh"
+  );
+  assert.throws(
+    () => resolveSigningKey({ sign: false, signingKey: "default" }, config),
+    ValidationError
+  );
+});
+
+test("commits signed with a throwaway SSH key verify", async (t) => {
+  if (sshKeygenMissing) {
+    t.skip(sshKeygenMissing);
+    return;
+  }
+  const levels = Array.from({ length: 7 }, (_, row) =>
+    Array.from({ length: 2 }, (_, col) => ((row + col) % 3) as CommitLevel)
+  );
+  const { plan, summary } = createPlan({
+    grid: { rows: 7, cols: 2, levels },
+    dateRange: { startDate: "2024-01-07", endDate: "2024-01-20" },
+    intensityMap: config.intensityMap,
+    randomSeed: "signing",
+    timeZone: "UTC",
+  });
+
+  const result = await generateRepository({
+    repoPath: path.join(tempRoot, "signed"),
+    plan,
+    summary,
+    authorName: "Draw Bot",
+    authorEmail: "drawbot@example.com",
+    timeZone: "UTC",
+    signing: resolveSigningKey({ sign: true }, config),
+  });
+
+  assert.deepEqual(result.signing, {
+    keyName: "default",
+    format: "ssh",
+    verifiedCommits: summary.totalCommits,
+    unverifiedCommits: 0,
+  });
+});
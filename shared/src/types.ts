@@ -11,12 +11,15 @@
 export type CommitLevel = 0 | 1 | 2 | 3 | 4;
 
 /**
- * Grid definition for the 7x51 contribution canvas.
+ * Grid definition for the contribution canvas (7 rows by 1-53 week columns).
  */
 export interface GridPayload {
   /** The number of rows in the grid; expected to be 7. */
   rows: number;
-  /** The number of columns in the grid; expected to be 51. */
+  /**
+   * The number of week columns in the grid, between 1 and 53.
+   * The date range must span exactly `rows * cols` days.
+   */
   cols: number;
   /**
    * Grid levels organized by row then column.
@@ -44,6 +47,130 @@ export interface CommitIntensityMap {
   maxByLevel: Record<CommitLevel, number>;
 }
 
+/**
+ * How commit counts are drawn inside each level's range.
+ */
+export type DistributionStrategy =
+  | "uniform"
+  | "fixed"
+  | "triangular"
+  | "gaussian"
+  | "smooth";
+
+/**
+ * Commit-count distribution and its parameters.
+ */
+export interface CommitDistribution {
+  /** Strategy used to pick a count inside `[min, max]` for each day. */
+  strategy: DistributionStrategy;
+  /**
+   * `fixed`: count used for every day of a level. Levels left out use the
+   * midpoint of their range.
+   */
+  fixedByLevel?: Partial<Record<CommitLevel, number>>;
+  /**
+   * `triangular` / `gaussian`: position of the mean inside the range, from
+   * `0` (min) to `1` (max). Defaults to `0.5`.
+   */
+  mean?: number;
+  /**
+   * `gaussian`: standard deviation as a fraction of the range width.
+   * Defaults to `0.25`.
+   */
+  spread?: number;
+  /**
+   * `smooth`: largest change allowed between consecutive days of the same
+   * level. Defaults to `1`.
+   */
+  maxStep?: number;
+}
+
+/**
+ * Whether a commit budget must be spent exactly or is an upper bound.
+ */
+export type BudgetMode = "exact" | "max";
+
+/**
+ * Built-in activity profiles for commit times.
+ */
+export type ActivityProfileName =
+  | "daytime"
+  | "office-hours"
+  | "night-owl"
+  | "weekend-hacker";
+
+/**
+ * A wall-clock time range within a day.
+ */
+export interface TimeWindow {
+  /** Start time, `HH:mm`. */
+  start: string;
+  /** End time (exclusive), `HH:mm`; `24:00` means end of day. */
+  end: string;
+}
+
+/**
+ * Describes when during a day commits are made.
+ */
+export interface ActivityProfile {
+  /** Active windows per weekday, index `0` = Sunday to `6` = Saturday. */
+  windowsByWeekday: TimeWindow[][];
+  /** Optional breaks removed from every day's windows. */
+  breaks?: TimeWindow[];
+  /** Optional relative weight per hour of day (24 values); flat when omitted. */
+  hourlyWeights?: number[];
+}
+
+/**
+ * How commit messages are produced. Messages are sampled from the seeded RNG,
+ * so preview and generation agree.
+ */
+export type CommitMessageConfig =
+  | {
+      style: "template";
+      /**
+       * Message with `{date}`, `{index}`, `{count}`, `{level}`, `{weekday}`
+       * and `{number}` placeholders.
+       */
+      template: string;
+    }
+  | {
+      style: "list";
+      /** Messages to sample from. */
+      messages: string[];
+    }
+  | {
+      style: "conventional";
+      /** Relative weights per commit type; defaults to a feat/fix/chore mix. */
+      types?: Record<string, number>;
+      /** Relative weights per scope; an empty key means no scope. */
+      scopes?: Record<string, number>;
+    };
+
+/**
+ * Commit counts keyed by ISO date (`YYYY-MM-DD`).
+ */
+export type DailyCommitCounts = Record<string, number>;
+
+/**
+ * Existing contribution history to plan against ("top-up" mode).
+ * Either read from a local repository under the output root or supplied
+ * directly as per-day counts.
+ */
+export type BaselineHistory =
+  | {
+      source: "repo";
+      /** Repository folder name under the server output root. */
+      folderName: string;
+      /** Optional author email; only matching commits are counted. */
+      authorEmail?: string;
+    }
+  | {
+      source: "counts";
+      /** Existing commits per day. */
+      counts: DailyCommitCounts;
+    };
+
 /**
  * Author identity for generated commits.
  */
@@ -54,6 +181,47 @@ export interface AuthorInfo {
   email: string;
 }
 
+/**
+ * A team member commits can be attributed to.
+ */
+export interface TeamMember extends AuthorInfo {
+  /** Relative share of commits; defaults to `1`. */
+  weight?: number;
+  /** Weekdays (`0` = Sunday) this member commits on; every day when omitted. */
+  weekdays?: number[];
+}
+
+/**
+ * Distributes commits among several identities.
+ */
+export interface AuthorsConfig {
+  /** Identities to draw commit authors from. */
+  members: TeamMember[];
+  /**
+   * Chance (0-1) that a commit gets a `Co-authored-by` trailer naming another
+   * member; defaults to `0`.
+   */
+  coAuthorProbability?: number;
+  /** Committer of every commit; defaults to each commit's author. */
+  committer?: AuthorInfo;
+}
+
+/**
+ * Commits attributed to one team member in a plan.
+ */
+export interface AuthorContribution {
+  /** Member name. */
+  name: string;
+  /** Member email. */
+  email: string;
+  /** Commits authored by the member. */
+  commitCount: number;
+  /** Commits where the member is a co-author. */
+  coAuthoredCount: number;
+  /** Dates (`YYYY-MM-DD`) the member authors at least one commit on. */
+  dates: string[];
+}
+
 /**
  * Request payload for previewing a commit plan.
  */
@@ -73,20 +241,192 @@ export interface PreviewRequest {
   intensityMap?: CommitIntensityMap;
   /** Optional random seed for reproducible commit generation. */
   randomSeed?: string;
+  /** Optional commit-count distribution; defaults to uniform. */
+  distribution?: CommitDistribution;
+  /**
+   * Optional total number of commits to plan. Per-day counts are scaled to
+   * fit while each level keeps more commits than the level below it.
+   */
+  totalCommitBudget?: number;
+  /** Whether `totalCommitBudget` is exact or a maximum; defaults to `max`. */
+  budgetMode?: BudgetMode;
+  /**
+   * Optional activity profile for commit times, either a built-in name or a
+   * custom profile. Defaults to `daytime` (09:00-20:00 every day).
+   */
+  activityProfile?: ActivityProfileName | ActivityProfile;
+  /**
+   * Optional commit message style. Defaults to the template
+   * `chore(history): {date} #{index}`.
+   */
+  commitMessages?: CommitMessageConfig;
+  /**
+   * IANA time zone the commits are authored in (e.g. `Europe/Berlin`).
+   * Defaults to the server's zone.
+   */
+  timeZone?: string;
   /** Optional commit author identity override. */
   author?: AuthorInfo;
+  /** Optional team of authors; takes precedence over `author`. */
+  authors?: AuthorsConfig;
+  /**
+   * Optional existing history. When set, only the commits missing to reach
+   * each cell's level are planned.
+   */
+  baseline?: BaselineHistory;
+  /**
+   * When true, the server solves for per-level commit counts that survive
+   * GitHub's quartile shading and uses them instead of `intensityMap`.
+   */
+  calibrate?: boolean;
+}
+
+/**
+ * How generated commits are written to Git.
+ */
+export type GitBackend = "fast-import" | "per-commit";
+
+/**
+ * Signature formats Git can sign commits with (`gpg.format`).
+ */
+export type SigningFormat = "openpgp" | "ssh";
+
+/**
+ * Signature verification outcome of a generation run.
+ */
+export interface SigningReport {
+  /** Name of the server signing key that was used. */
+  keyName: string;
+  /** Signature format of the key. */
+  format: SigningFormat;
+  /** Commits whose signature verified against the key. */
+  verifiedCommits: number;
+  /** Commits that are unsigned or failed verification. */
+  unverifiedCommits: number;
 }
 
+/**
+ * Remote a generated branch is pushed to. Exactly one field is set.
+ */
+export interface PushRequest {
+  /** Name of a remote in the server's push allowlist. */
+  remote?: string;
+  /**
+   * Bare repository under the output root, for testing. Only accepted when
+   * the server allows local push remotes.
+   */
+  localPath?: string;
+}
+
+/**
+ * Outcome of pushing a generated branch.
+ */
+export interface PushReport {
+  /** Allowlist name or local path of the remote. */
+  remote: string;
+  /** Branch that was pushed. */
+  branch: string;
+  /** Whether the push succeeded. */
+  pushed: boolean;
+  /** Why the push failed, with credentials removed. */
+  error?: string;
+}
+
+/**
+ * Where generated history goes inside an existing repository.
+ */
+export interface ExistingRepoTarget {
+  /**
+   * `orphan` creates a branch with no parent; `branch` creates a branch from
+   * `baseRef` and adds the commits on top.
+   */
+  mode: "orphan" | "branch";
+  /** Name of the branch to create; it must not exist yet. */
+  branch: string;
+  /** `branch` mode: starting point for the new branch; defaults to `HEAD`. */
+  baseRef?: string;
+}
+
+/**
+ * Built-in generators for the file changes each commit makes.
+ */
+export type ContentGeneratorName = "dump" | "journal" | "changelog" | "corpus";
+
+/**
+ * Content generator selection with its options. Each generator writes below
+ * `GenerateRequest.contentPath` and is seeded by `randomSeed`.
+ */
+export type ContentGeneratorConfig =
+  | {
+      /** Appends one random line per commit to a single text file. */
+      name: "dump";
+    }
+  | {
+      /** Appends a dated entry to a markdown journal file per period. */
+      name: "journal";
+      /** Period each journal file covers; defaults to `monthly`. */
+      rotation?: "daily" | "monthly" | "yearly";
+    }
+  | {
+      /** Prepends a release entry to a JSON changelog and bumps its version. */
+      name: "changelog";
+      /** Version before the first entry, as `major.minor.patch`; defaults to `0.1.0`. */
+      startVersion?: string;
+    }
+  | {
+      /** Replays the files of a local folder a few lines per commit. */
+      name: "corpus";
+      /** Source folder name under the server output root. */
+      folderName: string;
+    };
+
 /**
  * Request payload for generating commits.
  */
 export interface GenerateRequest extends PreviewRequest {
+  /**
+   * Commit writer: one `git fast-import` stream (default) or one
+   * `git add` + `git commit` per commit. Both produce identical histories.
+   */
+  backend?: GitBackend;
+  /**
+   * When set, `folderName` must be an existing repository and the history is
+   * written to a new branch there instead of a new repository.
+   */
+  target?: ExistingRepoTarget;
+  /** Generator for the file changes of each commit; defaults to `dump`. */
+  contentGenerator?: ContentGeneratorConfig;
+  /**
+   * Repository-relative file (`dump`, `changelog`) or folder (`journal`,
+   * `corpus`) the generator writes to; defaults depend on the generator.
+   * Must not already exist on the base branch.
+   */
+  contentPath?: string;
+  /** Whether to sign commits with the server's default signing key. */
+  sign?: boolean;
+  /** Name of an allowlisted server signing key; implies `sign`. */
+  signingKey?: string;
+  /**
+   * Remote to add as `origin` and push the branch to after generation. A
+   * failed push is reported in the response and keeps the local repository.
+   */
+  push?: PushRequest;
+  /**
+   * When true, continues an interrupted generation of the same request in
+   * the existing folder from its checkpoint.
+   */
+  resume?: boolean;
   /** When true, no Git commands will be executed. */
   dryRun?: boolean;
   /** When true, existing repo folder will be deleted first. */
   overwriteExisting?: boolean;
   /** Optional progress id for streaming updates. */
   progressId?: string;
+  /**
+   * When true, responds `202` with the job id as soon as the job is queued
+   * instead of waiting for it to finish.
+   */
+  async?: boolean;
 }
 
 /**
@@ -99,6 +439,12 @@ export interface CommitPlanEntry {
   level: CommitLevel;
   /** Planned number of commits for the date. */
   commitCount: number;
+  /** Commits already present on the date (top-up mode only). */
+  existingCount?: number;
+  /** Message of each planned commit, in commit order. */
+  messages?: string[];
+  /** Index into `authors.members` of each commit's author, when a team is set. */
+  authorIndexes?: number[];
 }
 
 /**
@@ -109,6 +455,8 @@ export interface CommitPlanSummary {
   totalCommits: number;
   /** Number of days with at least one commit. */
   activeDays: number;
+  /** Commits already present in the grid range (top-up mode only). */
+  existingCommits?: number;
   /** First date in the grid. */
   firstGridDate: string;
   /** Last date in the grid. */
@@ -120,6 +468,35 @@ export interface CommitPlanSummary {
   requestedRange: DateRange;
 }
 
+/**
+ * A grid cell whose predicted GitHub shade differs from the drawn level.
+ */
+export interface LevelMismatch {
+  /** Date in `YYYY-MM-DD` format. */
+  date: string;
+  /** Level painted on the canvas. */
+  drawnLevel: CommitLevel;
+  /** Level GitHub is expected to render. */
+  predictedLevel: CommitLevel;
+  /** Total commits on the date, including existing history. */
+  totalCount: number;
+}
+
+/**
+ * Simulated GitHub rendering of a plan using quartile-based bucketing.
+ */
+export interface PredictedLevels {
+  /**
+   * Inclusive upper commit counts for levels 1, 2 and 3.
+   * Counts above the last threshold render as level 4.
+   */
+  thresholds: [number, number, number];
+  /** Predicted levels organized by row then column, like `GridPayload.levels`. */
+  levels: CommitLevel[][];
+  /** Cells that will render at a different level than drawn. */
+  mismatches: LevelMismatch[];
+}
+
 /**
  * Preview response for a commit plan.
  */
@@ -127,6 +504,56 @@ export interface PreviewResponse {
   summary: CommitPlanSummary;
   warnings: string[];
   plan: CommitPlanEntry[];
+  /** Predicted GitHub rendering of the plan. */
+  predictedLevels?: PredictedLevels;
+  /** Intensity map chosen by calibration, when requested. */
+  calibratedIntensityMap?: CommitIntensityMap;
+  /** Per-member totals, when a team of authors is set. */
+  authorContributions?: AuthorContribution[];
+}
+
+/**
+ * A day whose commit count differs from the plan.
+ */
+export interface DayCountMismatch {
+  /** Date in `YYYY-MM-DD` format. */
+  date: string;
+  /** Planned number of commits. */
+  planned: number;
+  /** Number of commits found in the repository. */
+  actual: number;
+  /** Commits not explained by a shift to a neighbouring day. */
+  count: number;
+}
+
+/**
+ * Commits that landed one day away from their planned date.
+ */
+export interface ShiftedCommits {
+  /** Planned date in `YYYY-MM-DD` format. */
+  plannedDate: string;
+  /** Date the commits were found on. */
+  actualDate: string;
+  /** Number of shifted commits. */
+  count: number;
+}
+
+/**
+ * Result of comparing a repository's per-day commit counts with its plan.
+ */
+export interface VerificationReport {
+  /** Whether every day has exactly the planned number of commits. */
+  matches: boolean;
+  /** Total planned commits. */
+  plannedCommits: number;
+  /** Total commits found. */
+  actualCommits: number;
+  /** Days with fewer commits than planned. */
+  missing: DayCountMismatch[];
+  /** Days with more commits than planned, including unplanned days. */
+  extra: DayCountMismatch[];
+  /** Commits found on a day next to their planned date, e.g. from time-zone drift. */
+  shifted: ShiftedCommits[];
 }
 
 /**
@@ -140,4 +567,231 @@ export interface GenerateResponse {
   repoPath: string;
   /** A short sample of the Git log after generation. */
   gitLogSample: string[];
+  /** Branch the commits were written to. */
+  branch?: string;
+  /** Number of commits added. */
+  commitsAdded?: number;
+  /** Signature verification results, when commits were signed. */
+  signing?: SigningReport;
+  /** Push outcome, when a push was requested. */
+  push?: PushReport;
+  /** Per-day comparison of the written history with the plan. */
+  verification?: VerificationReport;
+  /** Id of the job record, for `/api/jobs/:id`. */
+  jobId?: string;
+}
+
+/**
+ * Request payload for cancelling a running generation.
+ */
+export interface CancelGenerationRequest {
+  /**
+   * When true, keeps the commits written so far instead of removing the
+   * partial repository (or the partial branch of an existing repository).
+   */
+  keepPartial?: boolean;
+}
+
+/**
+ * Request payload for verifying a generated repository against its plan.
+ */
+export interface VerifyRequest {
+  /** Repository folder name under the output root. */
+  folderName: string;
+  /** Optional output root override. */
+  outputRoot?: string;
+  /** Branch to verify; defaults to `main`. */
+  branch?: string;
+  /**
+   * Commit the branch was generated on (`branch` targets); commits reachable
+   * from it are not counted.
+   */
+  baseRef?: string;
+  /**
+   * IANA time zone to bucket commits by; defaults to the offset each commit
+   * was recorded with.
+   */
+  timeZone?: string;
+  /**
+   * Request the history was generated from; the plan is recomputed from it.
+   * When omitted, the planned counts are read from `history.json` on the branch.
+   */
+  request?: PreviewRequest;
+}
+
+/**
+ * Status of a recorded generation job. `pending` jobs are waiting in the
+ * queue; `interrupted` jobs were pending or running when the server stopped.
+ */
+export type JobStatus =
+  | "pending"
+  | "running"
+  | "complete"
+  | "error"
+  | "cancelled"
+  | "interrupted";
+
+/**
+ * A generation request recorded in the job store.
+ */
+export interface GenerationJob {
+  /** Job id; the request's `progressId` when it has one. */
+  id: string;
+  /** Repository folder name. */
+  folderName: string;
+  /** Current status. */
+  status: JobStatus;
+  /**
+   * Generation request as received, with `signingKey` and `push.remote`
+   * replaced by `***`.
+   */
+  request: GenerateRequest;
+  /** When the job was created (ISO timestamp). */
+  createdAt: string;
+  /** When the job left the queue and started running (ISO timestamp). */
+  startedAt?: string;
+  /** When the job finished (ISO timestamp). */
+  finishedAt?: string;
+  /**
+   * Run time in milliseconds once finished; time spent queued for jobs that
+   * never started.
+   */
+  durationMs?: number;
+  /**
+   * Response of a completed job, with the signing key and allowlisted push
+   * remote names replaced by `***`.
+   */
+  result?: GenerateResponse;
+  /** Why the job failed, was cancelled or was interrupted. */
+  error?: string;
+}
+
+/**
+ * Response payload for generation requests sent with `async`.
+ */
+export interface GenerateAcceptedResponse {
+  /** Job id, also used as the progress id. */
+  jobId: string;
+  /** Job status when the response was sent. */
+  status: JobStatus;
+  /** 1-based queue position while the job is pending. */
+  queuePosition?: number;
+}
+
+/**
+ * Response payload for listing jobs.
+ */
+export interface ListJobsResponse {
+  /** Matching jobs, newest first. */
+  jobs: GenerationJob[];
+}
+
+/**
+ * Download formats for a generated repository: a `git bundle` of all refs,
+ * or an archive of the working tree including `.git`.
+ */
+export type RepoDownloadFormat = "bundle" | "tar.gz" | "zip";
+
+/**
+ * Names of the built-in pixel fonts.
+ */
+export type PixelFontName = "5x7" | "3x5";
+
+/**
+ * Horizontal alignment for text banners.
+ */
+export type TextAlign = "left" | "center" | "right";
+
+/**
+ * Request payload for rendering text onto a grid.
+ */
+export interface RenderTextRequest {
+  /** Text to render. Letters are rendered upper-case. */
+  text: string;
+  /** Font to use; defaults to `5x7`. */
+  font?: PixelFontName;
+  /** Horizontal alignment; defaults to `center`. */
+  align?: TextAlign;
+  /** Empty columns between characters; defaults to 1. */
+  letterSpacing?: number;
+  /** Columns to shift the text right (negative shifts left) after alignment. */
+  offset?: number;
+  /** Level used for lit pixels; defaults to 4. */
+  level?: CommitLevel;
+  /** Grid width in week columns; defaults to 51. */
+  cols?: number;
+}
+
+/**
+ * Response payload for a rendered text banner.
+ */
+export interface RenderTextResponse {
+  /** Grid with the text painted in and every other cell at level 0. */
+  grid: GridPayload;
+  /** Width of the rendered text in columns. */
+  textWidth: number;
+}
+
+/**
+ * Request payload for converting an image into a grid.
+ */
+export interface ImportImageRequest {
+  /** PNG or BMP file contents, base64 encoded (a data URL prefix is allowed). */
+  imageBase64: string;
+  /** Grid width in week columns; defaults to 51. */
+  cols?: number;
+  /** Darkness in [0, 1) below which cells stay at level 0; defaults to 0.1. */
+  threshold?: number;
+  /** Contrast multiplier around mid-gray; defaults to 1. */
+  contrast?: number;
+  /** When true, light pixels become high levels. */
+  invert?: boolean;
+  /** When true, applies Floyd-Steinberg dithering. */
+  dither?: boolean;
+  /** When true, stretches the image to the full grid width instead of keeping its aspect ratio. */
+  stretch?: boolean;
+}
+
+/**
+ * Response payload for an image import.
+ */
+export interface ImportImageResponse {
+  /** Quantized grid. */
+  grid: GridPayload;
+  /** Source image width in pixels. */
+  sourceWidth: number;
+  /** Source image height in pixels. */
+  sourceHeight: number;
+}
+
+/**
+ * Request payload for reading an existing repository back into a grid.
+ */
+export interface AnalyzeRequest {
+  /** Repository folder name under the output root. */
+  folderName: string;
+  /** Optional override for the output root on the server. */
+  outputRoot?: string;
+  /** Date of the top-left grid cell. */
+  startDate: string;
+  /** Grid width in week columns; defaults to 51. */
+  cols?: number;
+  /** Optional author email; only matching commits are counted. */
+  authorEmail?: string;
+}
+
+/**
+ * Response payload for a repository analysis.
+ */
+export interface AnalyzeResponse {
+  /** Grid shaded the way GitHub would render the history. */
+  grid: GridPayload;
+  /** Date range covered by the grid. */
+  dateRange: DateRange;
+  /** Commits per day inside the grid range (days without commits omitted). */
+  dailyCounts: DailyCommitCounts;
+  /** Total commits inside the grid range. */
+  totalCommits: number;
+  /** Commit ranges per level observed in the history. */
+  intensityMap: CommitIntensityMap;
 }
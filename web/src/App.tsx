@@ -1,29 +1,62 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import type {
+  ActivityProfile,
+  ActivityProfileName,
+  AuthorsConfig,
+  BaselineHistory,
+  BudgetMode,
+  CancelGenerationRequest,
+  CommitDistribution,
   CommitIntensityMap,
   CommitLevel,
+  CommitMessageConfig,
+  ContentGeneratorConfig,
+  ExistingRepoTarget,
   GenerateRequest,
   PreviewRequest,
   PreviewResponse,
+  PushReport,
+  RenderTextRequest,
+  SigningReport,
+  VerificationReport,
 } from "../../shared/src/types";
-import { generatePlan, previewPlan, progressStreamUrl } from "./api/client";
+import {
+  analyzeRepository,
+  cancelGeneration,
+  generatePlan,
+  previewPlan,
+  progressStreamUrl,
+  renderText,
+} from "./api/client";
+import { ActivitySettings } from "./components/ActivitySettings";
+import {
+  CommitMessageSettings,
+  DEFAULT_MESSAGE_TEMPLATE,
+} from "./components/CommitMessageSettings";
+import { BaselineSettings } from "./components/BaselineSettings";
 import { DateInputs } from "./components/DateInputs";
 import { FolderInputs } from "./components/FolderInputs";
 import { Grid } from "./components/Grid";
 import { CommitIdentity } from "./components/CommitIdentity";
+import { ImageImportDialog } from "./components/ImageImportDialog";
 import { IntensitySettings } from "./components/IntensitySettings";
 import { Legend } from "./components/Legend";
 import { PreviewPanel } from "./components/PreviewPanel";
+import { TeamSettings } from "./components/TeamSettings";
+import { TextTool } from "./components/TextTool";
 import {
   diffInDays,
   getDateForCell,
+  getGridEndDate,
   isValidIsoDate,
   suggestRangeForYear,
 } from "./utils/date";
 
 const GRID_ROWS = 7;
-const GRID_COLS = 51;
-const EXPECTED_DAYS = GRID_ROWS * GRID_COLS;
+const DEFAULT_GRID_COLS = 51;
+const MIN_GRID_COLS = 1;
+const MAX_GRID_COLS = 53;
+const PROGRESS_RECONNECT_DELAY_MS = 3000;
 const LEVELS: CommitLevel[] = [0, 1, 2, 3, 4];
 
 const DEFAULT_INTENSITY: CommitIntensityMap = {
@@ -34,14 +67,64 @@ const DEFAULT_INTENSITY: CommitIntensityMap = {
 /**
  * Builds an empty grid filled with 0-levels.
  *
- * @return 7x51 grid.
+ * @param cols Number of week columns.
+ * @return 7-row grid with the requested width.
  */
-function createEmptyGrid(): CommitLevel[][] {
+function createEmptyGrid(cols: number): CommitLevel[][] {
   return Array.from({ length: GRID_ROWS }, () =>
-    Array.from({ length: GRID_COLS }, () => 0 as CommitLevel)
+    Array.from({ length: cols }, () => 0 as CommitLevel)
   );
 }
 
+/**
+ * Resizes a grid to a new column count, keeping painted cells that still fit.
+ *
+ * @param grid Current grid.
+ * @param cols Target number of week columns.
+ * @return Resized grid.
+ */
+function resizeGrid(grid: CommitLevel[][], cols: number): CommitLevel[][] {
+  return grid.map((row) =>
+    Array.from({ length: cols }, (_, colIndex) => row[colIndex] ?? 0)
+  );
+}
+
+/**
+ * Paints the non-zero cells of an overlay onto a grid.
+ *
+ * @param grid Current grid.
+ * @param overlay Overlay levels with the same shape.
+ * @return Merged grid.
+ */
+function mergeGrid(grid: CommitLevel[][], overlay: CommitLevel[][]): CommitLevel[][] {
+  return grid.map((row, rowIndex) =>
+    row.map((level, colIndex) => overlay[rowIndex]?.[colIndex] || level)
+  );
+}
+
+/**
+ * Trims team identities and drops an empty committer.
+ *
+ * @param authors Team settings from the form.
+ * @return Request-ready team settings.
+ */
+function normalizeAuthors(authors: AuthorsConfig): AuthorsConfig {
+  const committerName = authors.committer?.name.trim() ?? "";
+  const committerEmail = authors.committer?.email.trim() ?? "";
+  return {
+    ...authors,
+    members: authors.members.map((member) => ({
+      ...member,
+      name: member.name.trim(),
+      email: member.email.trim(),
+    })),
+    committer:
+      committerName || committerEmail
+        ? { name: committerName, email: committerEmail }
+        : undefined,
+  };
+}
+
 /**
  * Root application component.
  *
@@ -50,44 +133,99 @@ function createEmptyGrid(): CommitLevel[][] {
 export default function App() {
   const defaultYear = 2025;
   const suggestedRange = useMemo(
-    () => suggestRangeForYear(defaultYear),
+    () => suggestRangeForYear(defaultYear, DEFAULT_GRID_COLS),
     [defaultYear]
   );
 
-  const [grid, setGrid] = useState<CommitLevel[][]>(createEmptyGrid());
+  const [gridCols, setGridCols] = useState(DEFAULT_GRID_COLS);
+  const [grid, setGrid] = useState<CommitLevel[][]>(
+    createEmptyGrid(DEFAULT_GRID_COLS)
+  );
   const [folderName, setFolderName] = useState("fake-history");
   const [startDate, setStartDate] = useState(suggestedRange.startDate);
   const [endDate, setEndDate] = useState(suggestedRange.endDate);
   const [year, setYear] = useState(defaultYear);
   const [seed, setSeed] = useState("");
+  const [commitBudget, setCommitBudget] = useState("");
+  const [budgetMode, setBudgetMode] = useState<BudgetMode>("max");
+  const [activityProfile, setActivityProfile] = useState<
+    ActivityProfileName | ActivityProfile
+  >("daytime");
+  const [commitMessages, setCommitMessages] = useState<CommitMessageConfig>({
+    style: "template",
+    template: DEFAULT_MESSAGE_TEMPLATE,
+  });
+  const [timeZone, setTimeZone] = useState(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone
+  );
   const [selectedLevel, setSelectedLevel] = useState<CommitLevel>(2);
   const [isDrawing, setIsDrawing] = useState(false);
+  const [isImageImportOpen, setIsImageImportOpen] = useState(false);
   const [intensityMap, setIntensityMap] =
     useState<CommitIntensityMap>(DEFAULT_INTENSITY);
+  const [distribution, setDistribution] = useState<CommitDistribution>({
+    strategy: "uniform",
+  });
+  const [calibratedMap, setCalibratedMap] =
+    useState<CommitIntensityMap | null>(null);
   const [githubUsername, setGithubUsername] = useState("");
   const [githubEmail, setGithubEmail] = useState("");
   const [overwriteExisting, setOverwriteExisting] = useState(true);
+  const [resume, setResume] = useState(false);
+  const [authors, setAuthors] = useState<AuthorsConfig | undefined>(undefined);
+  const [signingKey, setSigningKey] = useState("");
+  const [signCommits, setSignCommits] = useState(false);
+  const [pushRemote, setPushRemote] = useState("");
+  const [pushLocal, setPushLocal] = useState(false);
+  const [target, setTarget] = useState<ExistingRepoTarget | undefined>(
+    undefined
+  );
+  const [contentGenerator, setContentGenerator] =
+    useState<ContentGeneratorConfig>({ name: "dump" });
+  const [contentPath, setContentPath] = useState("");
+  const [baseline, setBaseline] = useState<BaselineHistory | undefined>(
+    undefined
+  );
   const [preview, setPreview] = useState<PreviewResponse | null>(null);
   const [repoPath, setRepoPath] = useState<string | undefined>(undefined);
   const [gitLogSample, setGitLogSample] = useState<string[] | undefined>(undefined);
-  const [loadingAction, setLoadingAction] = useState<"preview" | "generate" | null>(
+  const [signingReport, setSigningReport] = useState<
+    SigningReport | undefined
+  >(undefined);
+  const [pushReport, setPushReport] = useState<PushReport | undefined>(
+    undefined
+  );
+  const [verificationReport, setVerificationReport] = useState<
+    VerificationReport | undefined
+  >(undefined);
+  const [generatedBranch, setGeneratedBranch] = useState<
+    { branch: string; commitsAdded: number } | undefined
+  >(undefined);
+  const [loadingAction, setLoadingAction] = useState<
+    "preview" | "generate" | "analyze" | null
+  >(
     null
   );
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState("");
   const [progressStatus, setProgressStatus] = useState<
-    "pending" | "running" | "complete" | "error" | null
+    "pending" | "running" | "complete" | "error" | "cancelled" | null
   >(null);
   const [error, setError] = useState<string | null>(null);
   const summaryRef = useRef<HTMLElement | null>(null);
   const progressSourceRef = useRef<EventSource | null>(null);
+  const progressEventIdRef = useRef("");
+  const progressReconnectRef = useRef<number | null>(null);
+  const progressIdRef = useRef<string | null>(null);
+  const cancelRequestRef = useRef<CancelGenerationRequest | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   const gridPreviewDate = useMemo(() => {
     if (!startDate || !isValidIsoDate(startDate)) {
       return "";
     }
-    return getDateForCell(startDate, 6, 50);
-  }, [startDate]);
+    return getDateForCell(startDate, GRID_ROWS - 1, gridCols - 1);
+  }, [startDate, gridCols]);
 
   const rangeDiff = useMemo(() => {
     if (!startDate || !endDate) {
@@ -103,14 +241,15 @@ export default function App() {
     if (rangeDiff === null) {
       return "";
     }
-    if (rangeDiff !== EXPECTED_DAYS - 1) {
-      return `Date range should span ${EXPECTED_DAYS} days. Current span: ${rangeDiff + 1} days.`;
+    const expectedDays = GRID_ROWS * gridCols;
+    if (rangeDiff !== expectedDays - 1) {
+      return `Date range should span ${expectedDays} days. Current span: ${rangeDiff + 1} days.`;
     }
     if (endDate !== gridPreviewDate) {
       return `End date should be ${gridPreviewDate} for the selected start date.`;
     }
     return "";
-  }, [rangeDiff, endDate, gridPreviewDate]);
+  }, [rangeDiff, endDate, gridPreviewDate, gridCols]);
 
   const intensityWarning = useMemo(() => {
     for (const level of LEVELS) {
@@ -122,9 +261,27 @@ export default function App() {
       if (min > max) {
         return `Level ${level} has min greater than max.`;
       }
+      const fixed = distribution.fixedByLevel?.[level];
+      if (
+        distribution.strategy === "fixed" &&
+        fixed !== undefined &&
+        (fixed < min || fixed > max)
+      ) {
+        return `Level ${level} fixed count must be between ${min} and ${max}.`;
+      }
+    }
+    return "";
+  }, [intensityMap, distribution]);
+
+  const baselineWarning = useMemo(() => {
+    if (baseline?.source === "repo" && !baseline.folderName.trim()) {
+      return "Enter the folder of the repository to top up.";
+    }
+    if (baseline && commitBudget.trim()) {
+      return "A commit budget cannot be combined with a baseline.";
     }
     return "";
-  }, [intensityMap]);
+  }, [baseline, commitBudget]);
 
   useEffect(() => {
     const handlePointerUp = () => setIsDrawing(false);
@@ -135,6 +292,9 @@ export default function App() {
   useEffect(() => {
     return () => {
       progressSourceRef.current?.close();
+      if (progressReconnectRef.current !== null) {
+        window.clearTimeout(progressReconnectRef.current);
+      }
     };
   }, []);
 
@@ -145,27 +305,39 @@ export default function App() {
   const closeProgressStream = () => {
     progressSourceRef.current?.close();
     progressSourceRef.current = null;
+    if (progressReconnectRef.current !== null) {
+      window.clearTimeout(progressReconnectRef.current);
+      progressReconnectRef.current = null;
+    }
   };
 
-  const startProgressStream = (progressId: string) => {
+  const startProgressStream = (progressId: string, lastEventId = "") => {
     closeProgressStream();
-    const source = new EventSource(progressStreamUrl(progressId));
+    progressEventIdRef.current = lastEventId;
+    const source = new EventSource(progressStreamUrl(progressId, lastEventId));
     progressSourceRef.current = source;
 
     source.onmessage = (event) => {
       try {
         const payload = JSON.parse(event.data) as {
           progress: number;
-          status: "pending" | "running" | "complete" | "error";
+          status: "pending" | "running" | "complete" | "error" | "cancelled";
           message?: string;
           error?: string;
         };
+        if (event.lastEventId) {
+          progressEventIdRef.current = event.lastEventId;
+        }
         setProgress(payload.progress);
         setProgressStatus(payload.status);
         if (payload.message) {
           setProgressMessage(payload.message);
         }
-        if (payload.status === "complete" || payload.status === "error") {
+        if (
+          payload.status === "complete" ||
+          payload.status === "error" ||
+          payload.status === "cancelled"
+        ) {
           closeProgressStream();
         }
       } catch (err) {
@@ -173,8 +345,16 @@ export default function App() {
       }
     };
 
+    // The browser retries dropped connections itself, sending the last event
+    // id. Once it gives up (e.g. the server was down), reopen after a delay.
     source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) {
+        return;
+      }
       closeProgressStream();
+      progressReconnectRef.current = window.setTimeout(() => {
+        startProgressStream(progressId, progressEventIdRef.current);
+      }, PROGRESS_RECONNECT_DELAY_MS);
     };
   };
 
@@ -196,30 +376,91 @@ export default function App() {
     });
   };
 
+  const handleGridColsChange = (value: number) => {
+    const nextCols = Math.min(
+      MAX_GRID_COLS,
+      Math.max(MIN_GRID_COLS, Math.round(Number.isFinite(value) ? value : 0))
+    );
+    setGridCols(nextCols);
+    setGrid((prev) => resizeGrid(prev, nextCols));
+    if (startDate && isValidIsoDate(startDate)) {
+      setEndDate(getGridEndDate(startDate, nextCols));
+    }
+  };
+
+  const handleRenderText = async (request: RenderTextRequest) => {
+    const response = await renderText({ ...request, cols: gridCols });
+    setGrid((prev) => mergeGrid(prev, response.grid.levels));
+  };
+
+  const handleLoadFromRepo = async () => {
+    setError(null);
+    setLoadingAction("analyze");
+    try {
+      const response = await analyzeRepository({
+        folderName: folderName.trim(),
+        startDate,
+        cols: gridCols,
+        authorEmail: githubEmail.trim() || undefined,
+      });
+      setGrid(response.grid.levels);
+      setIntensityMap(response.intensityMap);
+      setPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to analyze repository.");
+    } finally {
+      setLoadingAction(null);
+    }
+  };
+
   const resetGrid = () => {
-    setGrid(createEmptyGrid());
+    setGrid(createEmptyGrid(gridCols));
     setPreview(null);
     setRepoPath(undefined);
     setGitLogSample(undefined);
+    setGeneratedBranch(undefined);
+    setSigningReport(undefined);
+    setPushReport(undefined);
+    setVerificationReport(undefined);
     setIsDrawing(false);
   };
 
-  const buildPreviewPayload = (): PreviewRequest => ({
+  const buildPreviewPayload = (calibrate = false): PreviewRequest => ({
     folderName: folderName.trim(),
     dateRange: { startDate, endDate },
-    grid: { rows: GRID_ROWS, cols: GRID_COLS, levels: grid },
+    grid: { rows: GRID_ROWS, cols: gridCols, levels: grid },
     randomSeed: seed.trim() ? seed.trim() : undefined,
+    distribution: distribution.strategy === "uniform" ? undefined : distribution,
+    totalCommitBudget: commitBudget.trim() ? Number(commitBudget) : undefined,
+    budgetMode: commitBudget.trim() ? budgetMode : undefined,
+    timeZone: timeZone.trim() || undefined,
+    activityProfile: activityProfile === "daytime" ? undefined : activityProfile,
+    commitMessages:
+      commitMessages.style === "template" &&
+      commitMessages.template === DEFAULT_MESSAGE_TEMPLATE
+        ? undefined
+        : commitMessages,
     intensityMap,
     author: githubUsername.trim() && githubEmail.trim()
       ? { name: githubUsername.trim(), email: githubEmail.trim() }
       : undefined,
+    authors: authors ? normalizeAuthors(authors) : undefined,
+    baseline:
+      baseline?.source === "repo"
+        ? { ...baseline, folderName: baseline.folderName.trim() }
+        : baseline,
+    calibrate: calibrate || undefined,
   });
 
-  const handlePreview = async () => {
+  const handlePreview = async (calibrate = false) => {
     setError(null);
     setPreview(null);
     setRepoPath(undefined);
     setGitLogSample(undefined);
+    setGeneratedBranch(undefined);
+    setSigningReport(undefined);
+    setPushReport(undefined);
+    setVerificationReport(undefined);
     closeProgressStream();
     setProgress(0);
     setProgressMessage("");
@@ -227,8 +468,9 @@ export default function App() {
     setLoadingAction("preview");
     scrollToSummary();
     try {
-      const response = await previewPlan(buildPreviewPayload());
+      const response = await previewPlan(buildPreviewPayload(calibrate));
       setPreview(response);
+      setCalibratedMap(response.calibratedIntensityMap ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to preview plan.");
     } finally {
@@ -241,7 +483,12 @@ export default function App() {
     setPreview(null);
     setRepoPath(undefined);
     setGitLogSample(undefined);
+    setGeneratedBranch(undefined);
+    setSigningReport(undefined);
+    setPushReport(undefined);
+    setVerificationReport(undefined);
     const progressId = crypto.randomUUID();
+    progressIdRef.current = progressId;
     startProgressStream(progressId);
     setProgress(0);
     setProgressMessage("Preparing repository");
@@ -252,7 +499,25 @@ export default function App() {
       const payload: GenerateRequest = {
         ...buildPreviewPayload(),
         dryRun: false,
-        overwriteExisting,
+        overwriteExisting: target || resume ? undefined : overwriteExisting,
+        resume: resume || undefined,
+        target: target
+          ? { ...target, branch: target.branch.trim() }
+          : undefined,
+        contentGenerator:
+          contentGenerator.name === "dump"
+            ? undefined
+            : contentGenerator.name === "corpus"
+              ? { ...contentGenerator, folderName: contentGenerator.folderName.trim() }
+              : contentGenerator,
+        contentPath: contentPath.trim() || undefined,
+        sign: signCommits || undefined,
+        signingKey: signCommits ? signingKey.trim() || undefined : undefined,
+        push: pushRemote.trim()
+          ? pushLocal
+            ? { localPath: pushRemote.trim() }
+            : { remote: pushRemote.trim() }
+          : undefined,
         progressId,
       };
       const response = await generatePlan(payload);
@@ -263,20 +528,58 @@ export default function App() {
       });
       setRepoPath(response.repoPath);
       setGitLogSample(response.gitLogSample);
+      setSigningReport(response.signing);
+      setPushReport(response.push);
+      setVerificationReport(response.verification);
+      if (response.branch && response.commitsAdded !== undefined) {
+        setGeneratedBranch({
+          branch: response.branch,
+          commitsAdded: response.commitsAdded,
+        });
+      }
       setProgress(100);
       setProgressStatus("complete");
       closeProgressStream();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to generate commits.");
-      setProgressStatus("error");
+      const cancelRequest = cancelRequestRef.current;
+      if (cancelRequest) {
+        setProgressStatus("cancelled");
+        setProgressMessage(
+          cancelRequest.keepPartial
+            ? "Generation cancelled; the commits written so far were kept."
+            : "Generation cancelled; the partial history was removed."
+        );
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to generate commits.");
+        setProgressStatus("error");
+      }
       closeProgressStream();
     } finally {
+      progressIdRef.current = null;
+      cancelRequestRef.current = null;
+      setIsCancelling(false);
       setLoadingAction(null);
     }
   };
 
+  const handleCancel = async (keepPartial: boolean) => {
+    const progressId = progressIdRef.current;
+    if (!progressId) {
+      return;
+    }
+    cancelRequestRef.current = { keepPartial };
+    setIsCancelling(true);
+    try {
+      await cancelGeneration(progressId, { keepPartial });
+    } catch (err) {
+      // The run finished before the cancellation reached the server.
+      cancelRequestRef.current = null;
+      setIsCancelling(false);
+    }
+  };
+
   const applySuggestedRange = () => {
-    const suggested = suggestRangeForYear(year);
+    const suggested = suggestRangeForYear(year, gridCols);
     setStartDate(suggested.startDate);
     setEndDate(suggested.endDate);
   };
@@ -288,8 +591,8 @@ export default function App() {
           <p className="eyebrow">Draw on Git History</p>
           <h1>Design a contribution graph you can commit for real.</h1>
           <p className="subhead">
-            Plan a 7x51 grid, preview the totals, then generate a Git repository
-            with the exact commit cadence.
+            Plan a grid up to 53 weeks wide, preview the totals, then generate a
+            Git repository with the exact commit cadence.
           </p>
         </div>
         <div className="hero-card">
@@ -313,17 +616,50 @@ export default function App() {
               overwriteExisting={overwriteExisting}
               onGithubUsernameChange={setGithubUsername}
               onGithubEmailChange={setGithubEmail}
+              signingKey={signingKey}
+              signCommits={signCommits}
               onOverwriteExistingChange={setOverwriteExisting}
+              resume={resume}
+              onResumeChange={setResume}
+              onSigningKeyChange={setSigningKey}
+              onSignCommitsChange={setSignCommits}
+              pushRemote={pushRemote}
+              pushLocal={pushLocal}
+              onPushRemoteChange={setPushRemote}
+              onPushLocalChange={setPushLocal}
             />
             <FolderInputs
               folderName={folderName}
+              target={target}
+              contentGenerator={contentGenerator}
+              contentPath={contentPath}
               onFolderNameChange={setFolderName}
+              onTargetChange={setTarget}
+              onContentGeneratorChange={setContentGenerator}
+              onContentPathChange={setContentPath}
+            />
+            <TeamSettings authors={authors} onAuthorsChange={setAuthors} />
+            <BaselineSettings
+              baseline={baseline}
+              onBaselineChange={setBaseline}
             />
           </div>
           <div className="controls-column">
             <IntensitySettings
               intensityMap={intensityMap}
+              distribution={distribution}
+              calibratedMap={calibratedMap}
+              isCalibrating={loadingAction === "preview"}
+              canCalibrate={!loadingAction && !rangeWarning && !!folderName.trim()}
               onIntensityChange={setIntensityMap}
+              onDistributionChange={setDistribution}
+              onCalibrate={() => handlePreview(true)}
+              onApplyCalibration={() => {
+                if (calibratedMap) {
+                  setIntensityMap(calibratedMap);
+                  setCalibratedMap(null);
+                }
+              }}
             />
             <div className="panel">
               <div className="panel-header">
@@ -340,6 +676,51 @@ export default function App() {
                     onChange={(event) => setSeed(event.target.value)}
                   />
                 </label>
+                <label className="field">
+                  <span>Time zone</span>
+                  <input
+                    type="text"
+                    placeholder="e.g. Europe/Berlin"
+                    value={timeZone}
+                    onChange={(event) => setTimeZone(event.target.value)}
+                  />
+                </label>
+                <span className="helper-text">
+                  Commit times are written in this zone. GitHub assigns each
+                  commit to the day of its local timestamp.
+                </span>
+                <ActivitySettings
+                  activityProfile={activityProfile}
+                  onActivityProfileChange={setActivityProfile}
+                />
+                <CommitMessageSettings
+                  commitMessages={commitMessages}
+                  onCommitMessagesChange={setCommitMessages}
+                />
+                <div className="field-row">
+                  <label className="field">
+                    <span>Commit budget (optional)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder="e.g. 1500"
+                      value={commitBudget}
+                      onChange={(event) => setCommitBudget(event.target.value)}
+                    />
+                  </label>
+                  <label className="field">
+                    <span>Budget mode</span>
+                    <select
+                      value={budgetMode}
+                      onChange={(event) =>
+                        setBudgetMode(event.target.value as BudgetMode)
+                      }
+                    >
+                      <option value="max">At most</option>
+                      <option value="exact">Exactly</option>
+                    </select>
+                  </label>
+                </div>
               </div>
             </div>
           </div>
@@ -348,9 +729,13 @@ export default function App() {
               startDate={startDate}
               endDate={endDate}
               year={year}
+              gridCols={gridCols}
+              minGridCols={MIN_GRID_COLS}
+              maxGridCols={MAX_GRID_COLS}
               onStartDateChange={setStartDate}
               onEndDateChange={setEndDate}
               onYearChange={setYear}
+              onGridColsChange={handleGridColsChange}
               onApplySuggestedRange={applySuggestedRange}
             />
             <div className="panel actions-panel">
@@ -362,11 +747,12 @@ export default function App() {
                 <button
                   type="button"
                   className="secondary"
-                  onClick={handlePreview}
+                  onClick={() => handlePreview()}
                   disabled={
                     !!loadingAction ||
                     !!rangeWarning ||
                     !!intensityWarning ||
+                    !!baselineWarning ||
                     !folderName.trim()
                   }
                 >
@@ -380,6 +766,7 @@ export default function App() {
                     !!loadingAction ||
                     !!rangeWarning ||
                     !!intensityWarning ||
+                    !!baselineWarning ||
                     !folderName.trim()
                   }
                 >
@@ -399,7 +786,8 @@ export default function App() {
               <p>Pick a level, then click or drag to paint in any direction.</p>
               <p className="note">
                 GitHub recalculates contribution colors across your full history, so
-                shades can shift once you push this repo.
+                shades can shift once you push this repo. Preview the plan to see the
+                predicted shades.
               </p>
             </div>
             <Legend
@@ -420,8 +808,27 @@ export default function App() {
             <button type="button" className="secondary" onClick={resetGrid}>
               Reset grid
             </button>
-            {(rangeWarning || intensityWarning) && (
-              <span className="warning">{rangeWarning || intensityWarning}</span>
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => setIsImageImportOpen(true)}
+              disabled={!!loadingAction}
+            >
+              Import image
+            </button>
+            <button
+              type="button"
+              className="secondary"
+              onClick={handleLoadFromRepo}
+              disabled={!!loadingAction || !!rangeWarning || !folderName.trim()}
+            >
+              {loadingAction === "analyze" ? "Loading..." : "Load from repo"}
+            </button>
+            <TextTool disabled={!!loadingAction} onRenderText={handleRenderText} />
+            {(rangeWarning || intensityWarning || baselineWarning) && (
+              <span className="warning">
+                {rangeWarning || intensityWarning || baselineWarning}
+              </span>
             )}
           </div>
         </section>
@@ -430,17 +837,37 @@ export default function App() {
           <PreviewPanel
             summary={preview?.summary ?? null}
             warnings={preview?.warnings ?? []}
+            plan={preview?.plan}
+            predictedLevels={preview?.predictedLevels}
             repoPath={repoPath}
             gitLogSample={gitLogSample}
-            loadingAction={loadingAction}
+            branch={generatedBranch?.branch}
+            commitsAdded={generatedBranch?.commitsAdded}
+            signing={signingReport}
+            push={pushReport}
+            verification={verificationReport}
+            authorContributions={preview?.authorContributions}
+            loadingAction={loadingAction === "analyze" ? null : loadingAction}
             progress={progress}
             progressStatus={progressStatus}
             progressMessage={progressMessage}
+            isCancelling={isCancelling}
+            onCancel={handleCancel}
             folderName={folderName}
             githubUsername={githubUsername}
           />
         </section>
       </main>
+      {isImageImportOpen && (
+        <ImageImportDialog
+          cols={gridCols}
+          onApply={(levels) => {
+            setGrid(levels);
+            setIsImageImportOpen(false);
+          }}
+          onClose={() => setIsImageImportOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,8 +1,16 @@
 import type {
+  AnalyzeRequest,
+  CancelGenerationRequest,
+  AnalyzeResponse,
   GenerateRequest,
   GenerateResponse,
+  ImportImageRequest,
+  ImportImageResponse,
   PreviewRequest,
   PreviewResponse,
+  RenderTextRequest,
+  RenderTextResponse,
+  RepoDownloadFormat,
 } from "../../../shared/src/types";
 
 export const API_BASE = import.meta.env.VITE_API_BASE ?? "";
@@ -47,14 +55,84 @@ export async function generatePlan(
   return sendJson<GenerateResponse>(`${API_BASE}/api/generate`, payload);
 }
 
+/**
+ * Calls the text rendering endpoint.
+ *
+ * @param payload Render text request.
+ * @return Rendered grid.
+ */
+export async function renderText(
+  payload: RenderTextRequest
+): Promise<RenderTextResponse> {
+  return sendJson<RenderTextResponse>(`${API_BASE}/api/render-text`, payload);
+}
+
+/**
+ * Calls the image import endpoint.
+ *
+ * @param payload Import image request.
+ * @return Quantized grid.
+ */
+export async function importImage(
+  payload: ImportImageRequest
+): Promise<ImportImageResponse> {
+  return sendJson<ImportImageResponse>(`${API_BASE}/api/import/image`, payload);
+}
+
+/**
+ * Reads an existing repository back into a grid.
+ *
+ * @param payload Analyze request.
+ * @return Grid, per-day counts and inferred intensity map.
+ */
+export async function analyzeRepository(
+  payload: AnalyzeRequest
+): Promise<AnalyzeResponse> {
+  return sendJson<AnalyzeResponse>(`${API_BASE}/api/analyze`, payload);
+}
+
+/**
+ * Cancels a running generation.
+ *
+ * @param progressId Progress id of the run.
+ * @param payload Cancellation options.
+ */
+export async function cancelGeneration(
+  progressId: string,
+  payload: CancelGenerationRequest
+): Promise<void> {
+  await sendJson<unknown>(
+    `${API_BASE}/api/progress/${progressId}/cancel`,
+    payload
+  );
+}
+
 /**
  * Builds the progress stream URL for a generation run.
  *
  * @param progressId Progress id.
+ * @param lastEventId Id of the last event received, to resume after it.
  * @return SSE URL.
  */
-export function progressStreamUrl(progressId: string): string {
-  return `${API_BASE}/api/progress/${progressId}`;
+export function progressStreamUrl(progressId: string, lastEventId?: string): string {
+  const query = lastEventId
+    ? `?${new URLSearchParams({ lastEventId }).toString()}`
+    : "";
+  return `${API_BASE}/api/progress/${progressId}${query}`;
+}
+
+/**
+ * Builds the download URL of a generated repository.
+ *
+ * @param folderName Repository folder name.
+ * @param format Download format.
+ * @return Download URL.
+ */
+export function repoDownloadUrl(
+  folderName: string,
+  format: RepoDownloadFormat
+): string {
+  return `${API_BASE}/api/repos/${encodeURIComponent(folderName)}/download?format=${format}`;
 }
 
 /**
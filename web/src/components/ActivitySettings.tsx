@@ -0,0 +1,122 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import type {
+  ActivityProfile,
+  ActivityProfileName,
+} from "../../../shared/src/types";
+
+const PROFILE_LABELS: Record<ActivityProfileName, string> = {
+  daytime: "Daytime (09:00-20:00)",
+  "office-hours": "Office hours",
+  "night-owl": "Night owl",
+  "weekend-hacker": "Weekend hacker",
+};
+
+const CUSTOM_TEMPLATE: ActivityProfile = {
+  windowsByWeekday: Array.from({ length: 7 }, () => [
+    { start: "08:00", end: "18:00" },
+  ]),
+  breaks: [{ start: "12:00", end: "13:00" }],
+};
+
+/**
+ * Props for activity profile settings.
+ */
+export interface ActivitySettingsProps {
+  /** Current profile name or custom definition. */
+  activityProfile: ActivityProfileName | ActivityProfile;
+  /** Handler invoked when the profile changes. */
+  onActivityProfileChange: (profile: ActivityProfileName | ActivityProfile) => void;
+}
+
+/**
+ * Renders controls for choosing when during the day commits are made.
+ *
+ * @param props Component props.
+ * @return JSX element.
+ */
+export function ActivitySettings({
+  activityProfile,
+  onActivityProfileChange,
+}: ActivitySettingsProps) {
+  const [customText, setCustomText] = useState(() =>
+    JSON.stringify(CUSTOM_TEMPLATE, null, 2)
+  );
+  const [customError, setCustomError] = useState<string | null>(null);
+  const mode = typeof activityProfile === "string" ? activityProfile : "custom";
+
+  const handleModeChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    if (value !== "custom") {
+      setCustomError(null);
+      onActivityProfileChange(value as ActivityProfileName);
+      return;
+    }
+    applyCustomText(customText);
+  };
+
+  const applyCustomText = (text: string) => {
+    setCustomText(text);
+    try {
+      onActivityProfileChange(parseProfileJson(text));
+      setCustomError(null);
+    } catch (err) {
+      setCustomError(err instanceof Error ? err.message : "Invalid profile JSON.");
+    }
+  };
+
+  return (
+    <>
+      <label className="field">
+        <span>Activity profile</span>
+        <select value={mode} onChange={handleModeChange}>
+          {(Object.keys(PROFILE_LABELS) as ActivityProfileName[]).map((name) => (
+            <option key={name} value={name}>
+              {PROFILE_LABELS[name]}
+            </option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+      </label>
+      {mode === "custom" && (
+        <>
+          <label className="field">
+            <span>Custom profile JSON</span>
+            <textarea
+              rows={8}
+              spellCheck={false}
+              value={customText}
+              onChange={(event) => applyCustomText(event.target.value)}
+            />
+          </label>
+          <span className="helper-text">
+            windowsByWeekday lists HH:mm windows from Sunday to Saturday; breaks
+            and 24 hourlyWeights are optional.
+          </span>
+          {customError && <span className="warning">{customError}</span>}
+        </>
+      )}
+    </>
+  );
+}
+
+/**
+ * Parses a custom activity profile document.
+ *
+ * @param text JSON text.
+ * @return Activity profile.
+ */
+function parseProfileJson(text: string): ActivityProfile {
+  const parsed: unknown = JSON.parse(text);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Profile must be a JSON object.");
+  }
+  const profile = parsed as ActivityProfile;
+  if (
+    !Array.isArray(profile.windowsByWeekday) ||
+    profile.windowsByWeekday.length !== 7
+  ) {
+    throw new Error("windowsByWeekday must list windows for all 7 weekdays.");
+  }
+  return profile;
+}
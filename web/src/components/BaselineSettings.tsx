@@ -0,0 +1,149 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import type {
+  BaselineHistory,
+  DailyCommitCounts,
+} from "../../../shared/src/types";
+
+/**
+ * Props for top-up baseline settings.
+ */
+export interface BaselineSettingsProps {
+  /** Current baseline, or undefined when planning from an empty history. */
+  baseline: BaselineHistory | undefined;
+  /** Handler invoked when the baseline changes. */
+  onBaselineChange: (baseline: BaselineHistory | undefined) => void;
+}
+
+/**
+ * Renders controls for planning against existing contribution history.
+ *
+ * @param props Component props.
+ * @return JSX element.
+ */
+export function BaselineSettings({
+  baseline,
+  onBaselineChange,
+}: BaselineSettingsProps) {
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const mode = baseline?.source ?? "none";
+
+  const handleModeChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setFileError(null);
+    setFileName("");
+    const value = event.target.value;
+    if (value === "repo") {
+      onBaselineChange({ source: "repo", folderName: "" });
+    } else if (value === "counts") {
+      onBaselineChange({ source: "counts", counts: {} });
+    } else {
+      onBaselineChange(undefined);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      const counts = parseCountsJson(await file.text());
+      setFileError(null);
+      setFileName(file.name);
+      onBaselineChange({ source: "counts", counts });
+    } catch (err) {
+      setFileName("");
+      setFileError(err instanceof Error ? err.message : "Invalid counts file.");
+    }
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h3>Existing History</h3>
+        <p>Top up real activity so the final graph matches your drawing.</p>
+      </div>
+      <div className="panel-body">
+        <label className="field">
+          <span>Baseline</span>
+          <select value={mode} onChange={handleModeChange}>
+            <option value="none">None (empty history)</option>
+            <option value="repo">Local repository</option>
+            <option value="counts">Per-day counts JSON</option>
+          </select>
+        </label>
+        {baseline?.source === "repo" && (
+          <>
+            <label className="field">
+              <span>Repository folder</span>
+              <input
+                type="text"
+                placeholder="my-real-project"
+                value={baseline.folderName}
+                onChange={(event) =>
+                  onBaselineChange({ ...baseline, folderName: event.target.value })
+                }
+              />
+            </label>
+            <label className="field">
+              <span>Author email filter (optional)</span>
+              <input
+                type="email"
+                placeholder="octocat@users.noreply.github.com"
+                value={baseline.authorEmail ?? ""}
+                onChange={(event) =>
+                  onBaselineChange({
+                    ...baseline,
+                    authorEmail: event.target.value.trim() || undefined,
+                  })
+                }
+              />
+            </label>
+            <span className="helper-text">
+              The folder must live under the server output root.
+            </span>
+          </>
+        )}
+        {baseline?.source === "counts" && (
+          <>
+            <label className="field">
+              <span>Counts file</span>
+              <input type="file" accept="application/json,.json" onChange={handleFileChange} />
+            </label>
+            <span className="helper-text">
+              {fileName
+                ? `${fileName}: ${Object.keys(baseline.counts).length} days loaded.`
+                : 'Format: { "2025-01-05": 3, "2025-01-06": 1 }'}
+            </span>
+            {fileError && <span className="warning">{fileError}</span>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Parses a per-day counts JSON document.
+ *
+ * @param text File contents.
+ * @return Counts keyed by ISO date.
+ */
+function parseCountsJson(text: string): DailyCommitCounts {
+  const parsed: unknown = JSON.parse(text);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Counts file must be a JSON object of date -> count.");
+  }
+  const counts: DailyCommitCounts = {};
+  for (const [date, value] of Object.entries(parsed)) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`Invalid date key "${date}".`);
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw new Error(`Count for ${date} must be a non-negative integer.`);
+    }
+    counts[date] = value;
+  }
+  return counts;
+}
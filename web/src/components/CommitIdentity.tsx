@@ -10,12 +10,32 @@ export interface CommitIdentityProps {
   githubEmail: string;
   /** Replace existing repo flag. */
   overwriteExisting: boolean;
+  /** Whether to continue an interrupted generation in the existing folder. */
+  resume: boolean;
+  /** Server signing key name; empty uses the server default. */
+  signingKey: string;
+  /** Whether to sign commits. */
+  signCommits: boolean;
+  /** Push remote name, or bare repository path when `pushLocal` is set. */
+  pushRemote: string;
+  /** Whether `pushRemote` is a local bare repository path. */
+  pushLocal: boolean;
   /** Change handler for GitHub username. */
   onGithubUsernameChange: (value: string) => void;
   /** Change handler for GitHub email. */
   onGithubEmailChange: (value: string) => void;
   /** Change handler for overwrite option. */
   onOverwriteExistingChange: (value: boolean) => void;
+  /** Change handler for the resume option. */
+  onResumeChange: (value: boolean) => void;
+  /** Change handler for the signing key name. */
+  onSigningKeyChange: (value: string) => void;
+  /** Change handler for the signing option. */
+  onSignCommitsChange: (value: boolean) => void;
+  /** Change handler for the push remote. */
+  onPushRemoteChange: (value: string) => void;
+  /** Change handler for the local push remote option. */
+  onPushLocalChange: (value: boolean) => void;
 }
 
 /**
@@ -28,9 +48,19 @@ export function CommitIdentity({
   githubUsername,
   githubEmail,
   overwriteExisting,
+  resume,
+  signingKey,
+  signCommits,
+  pushRemote,
+  pushLocal,
   onGithubUsernameChange,
   onGithubEmailChange,
   onOverwriteExistingChange,
+  onResumeChange,
+  onSigningKeyChange,
+  onSignCommitsChange,
+  onPushRemoteChange,
+  onPushLocalChange,
 }: CommitIdentityProps) {
   return (
     <div className="panel">
@@ -67,7 +97,8 @@ export function CommitIdentity({
         <label className="checkbox-field">
           <input
             type="checkbox"
-            checked={overwriteExisting}
+            checked={overwriteExisting && !resume}
+            disabled={resume}
             onChange={(event) => onOverwriteExistingChange(event.target.checked)}
           />
           <span>Replace existing repository on generate</span>
@@ -75,6 +106,61 @@ export function CommitIdentity({
         <span className="helper-text">
           Recommended when changing GitHub identity, so old commits are removed.
         </span>
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={resume}
+            onChange={(event) => onResumeChange(event.target.checked)}
+          />
+          <span>Resume an interrupted generation</span>
+        </label>
+        <span className="helper-text">
+          Continues from the last checkpoint with the same settings; the result
+          matches an uninterrupted run.
+        </span>
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={signCommits}
+            onChange={(event) => onSignCommitsChange(event.target.checked)}
+          />
+          <span>Sign commits</span>
+        </label>
+        <label className="field">
+          <span>Signing key (optional)</span>
+          <input
+            type="text"
+            placeholder="Server default"
+            value={signingKey}
+            disabled={!signCommits}
+            onChange={(event) => onSigningKeyChange(event.target.value)}
+          />
+        </label>
+        <span className="helper-text">
+          Names a key from the server allowlist. Add its public key to GitHub so
+          commits show as verified. Signed commits need a new repository.
+        </span>
+        <label className="field">
+          <span>Push to remote (optional)</span>
+          <input
+            type="text"
+            placeholder={pushLocal ? "remotes/art.git" : "Remote name"}
+            value={pushRemote}
+            onChange={(event) => onPushRemoteChange(event.target.value)}
+          />
+        </label>
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={pushLocal}
+            onChange={(event) => onPushLocalChange(event.target.checked)}
+          />
+          <span>Local bare repository under the output root</span>
+        </label>
+        <span className="helper-text">
+          Names a remote from the server allowlist. The branch is pushed after
+          generation and the remote is added as origin.
+        </span>
       </div>
     </div>
   );
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import type { CommitMessageConfig } from "../../../shared/src/types";
+
+/** Template the server uses when no message style is sent. */
+export const DEFAULT_MESSAGE_TEMPLATE = "chore(history): {date} #{index}";
+
+/**
+ * Props for commit message settings.
+ */
+export interface CommitMessageSettingsProps {
+  /** Current message style. */
+  commitMessages: CommitMessageConfig;
+  /** Handler invoked when the style or its options change. */
+  onCommitMessagesChange: (config: CommitMessageConfig) => void;
+}
+
+/**
+ * Renders controls for choosing how commit messages are written.
+ *
+ * @param props Component props.
+ * @return JSX element.
+ */
+export function CommitMessageSettings({
+  commitMessages,
+  onCommitMessagesChange,
+}: CommitMessageSettingsProps) {
+  const [listText, setListText] = useState("");
+  const [typesText, setTypesText] = useState("");
+  const [scopesText, setScopesText] = useState("");
+
+  const handleStyleChange = (style: CommitMessageConfig["style"]) => {
+    if (style === "template") {
+      onCommitMessagesChange({ style, template: DEFAULT_MESSAGE_TEMPLATE });
+    } else if (style === "list") {
+      onCommitMessagesChange({ style, messages: parseMessageList(listText) });
+    } else {
+      onCommitMessagesChange({
+        style,
+        types: parseWeights(typesText),
+        scopes: parseWeights(scopesText),
+      });
+    }
+  };
+
+  return (
+    <>
+      <label className="field">
+        <span>Commit messages</span>
+        <select
+          value={commitMessages.style}
+          onChange={(event) =>
+            handleStyleChange(event.target.value as CommitMessageConfig["style"])
+          }
+        >
+          <option value="template">Template</option>
+          <option value="list">Random from a list</option>
+          <option value="conventional">Conventional Commits</option>
+        </select>
+      </label>
+      {commitMessages.style === "template" && (
+        <>
+          <label className="field">
+            <span>Message template</span>
+            <input
+              type="text"
+              value={commitMessages.template}
+              onChange={(event) =>
+                onCommitMessagesChange({
+                  style: "template",
+                  template: event.target.value,
+                })
+              }
+            />
+          </label>
+          <span className="helper-text">
+            Placeholders: {"{date}"}, {"{index}"}, {"{count}"}, {"{level}"},{" "}
+            {"{weekday}"}, {"{number}"}.
+          </span>
+        </>
+      )}
+      {commitMessages.style === "list" && (
+        <label className="field">
+          <span>Messages (one per line)</span>
+          <textarea
+            rows={5}
+            value={listText}
+            onChange={(event) => {
+              setListText(event.target.value);
+              onCommitMessagesChange({
+                style: "list",
+                messages: parseMessageList(event.target.value),
+              });
+            }}
+          />
+        </label>
+      )}
+      {commitMessages.style === "conventional" && (
+        <>
+          <label className="field">
+            <span>Type weights (optional)</span>
+            <input
+              type="text"
+              placeholder="feat=3, fix=3, refactor=2, chore=2, docs=1, test=1"
+              value={typesText}
+              onChange={(event) => {
+                setTypesText(event.target.value);
+                onCommitMessagesChange({
+                  ...commitMessages,
+                  types: parseWeights(event.target.value),
+                });
+              }}
+            />
+          </label>
+          <label className="field">
+            <span>Scope weights (optional)</span>
+            <input
+              type="text"
+              placeholder="=4, core=2, api=1, ui=1, build=1"
+              value={scopesText}
+              onChange={(event) => {
+                setScopesText(event.target.value);
+                onCommitMessagesChange({
+                  ...commitMessages,
+                  scopes: parseWeights(event.target.value),
+                });
+              }}
+            />
+          </label>
+          <span className="helper-text">
+            Comma-separated name=weight pairs; an empty scope name means no
+            scope.
+          </span>
+        </>
+      )}
+    </>
+  );
+}
+
+/**
+ * Splits a textarea into non-empty messages.
+ *
+ * @param text One message per line.
+ * @return Messages.
+ */
+function parseMessageList(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses `name=weight` pairs; returns undefined for empty input so the
+ * server defaults apply.
+ *
+ * @param text Comma-separated pairs.
+ * @return Weight table or undefined.
+ */
+function parseWeights(text: string): Record<string, number> | undefined {
+  const pairs = text
+    .split(",")
+    .map((pair) => pair.trim())
+    .filter(Boolean);
+  if (pairs.length === 0) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    pairs.map((pair) => {
+      const [name, weight] = pair.split("=");
+      return [name.trim(), weight === undefined ? 1 : Number(weight)];
+    })
+  );
+}
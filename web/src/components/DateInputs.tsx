@@ -10,12 +10,20 @@ export interface DateInputsProps {
   endDate: string;
   /** Suggested year for auto-fill. */
   year: number;
+  /** Number of week columns in the grid. */
+  gridCols: number;
+  /** Smallest allowed number of week columns. */
+  minGridCols: number;
+  /** Largest allowed number of week columns. */
+  maxGridCols: number;
   /** Change handler for start date. */
   onStartDateChange: (value: string) => void;
   /** Change handler for end date. */
   onEndDateChange: (value: string) => void;
   /** Change handler for year input. */
   onYearChange: (value: number) => void;
+  /** Change handler for the grid width. */
+  onGridColsChange: (value: number) => void;
   /** Handler to apply suggested range. */
   onApplySuggestedRange: () => void;
 }
@@ -30,18 +38,35 @@ export function DateInputs({
   startDate,
   endDate,
   year,
+  gridCols,
+  minGridCols,
+  maxGridCols,
   onStartDateChange,
   onEndDateChange,
   onYearChange,
+  onGridColsChange,
   onApplySuggestedRange,
 }: DateInputsProps) {
   return (
     <div className="panel">
       <div className="panel-header">
         <h3>Calendar Range</h3>
-        <p>Define the first and last date that your 7x51 grid spans.</p>
+        <p>Define the first and last date that your 7x{gridCols} grid spans.</p>
       </div>
       <div className="panel-body">
+        <label className="field">
+          <span>Week columns</span>
+          <input
+            type="number"
+            min={minGridCols}
+            max={maxGridCols}
+            value={gridCols}
+            onChange={(event) => onGridColsChange(Number(event.target.value))}
+          />
+        </label>
+        <span className="helper-text">
+          Use 51 for the inner weeks, or 52-53 for the full year GitHub shows.
+        </span>
         <label className="field">
           <span>Start date</span>
           <input
@@ -1,25 +1,93 @@
+import type {
+  ContentGeneratorConfig,
+  ExistingRepoTarget,
+} from "../../../shared/src/types";
+
+const GENERATOR_OPTIONS: Record<
+  ContentGeneratorConfig["name"],
+  { label: string; defaultPath: string; config: ContentGeneratorConfig }
+> = {
+  dump: {
+    label: "Dump file",
+    defaultPath: "dump.txt",
+    config: { name: "dump" },
+  },
+  journal: {
+    label: "Markdown journal",
+    defaultPath: "journal",
+    config: { name: "journal", rotation: "monthly" },
+  },
+  changelog: {
+    label: "JSON changelog",
+    defaultPath: "changelog.json",
+    config: { name: "changelog", startVersion: "0.1.0" },
+  },
+  corpus: {
+    label: "Corpus replay",
+    defaultPath: "corpus",
+    config: { name: "corpus", folderName: "" },
+  },
+};
+
 /**
  * Props for folder name input.
  */
 export interface FolderInputsProps {
   /** Folder name. */
   folderName: string;
+  /** Existing repository target, or undefined to create a new repo. */
+  target?: ExistingRepoTarget;
+  /** Generator for the file changes of each commit. */
+  contentGenerator: ContentGeneratorConfig;
+  /** Repository-relative file or folder the generator writes to. */
+  contentPath: string;
   /** Change handler for folder name. */
   onFolderNameChange: (value: string) => void;
+  /** Change handler for the existing repository target. */
+  onTargetChange: (target: ExistingRepoTarget | undefined) => void;
+  /** Change handler for the content generator. */
+  onContentGeneratorChange: (config: ContentGeneratorConfig) => void;
+  /** Change handler for the content path. */
+  onContentPathChange: (value: string) => void;
 }
 
 /**
- * Renders folder name input.
+ * Renders folder name input and the optional existing repository target.
  *
  * @param props Component props.
  * @return JSX element.
  */
-export function FolderInputs({ folderName, onFolderNameChange }: FolderInputsProps) {
+export function FolderInputs({
+  folderName,
+  target,
+  contentGenerator,
+  contentPath,
+  onFolderNameChange,
+  onTargetChange,
+  onContentGeneratorChange,
+  onContentPathChange,
+}: FolderInputsProps) {
+  const handleModeChange = (value: string) => {
+    if (value === "new") {
+      onTargetChange(undefined);
+      return;
+    }
+    onTargetChange({
+      mode: value as ExistingRepoTarget["mode"],
+      branch: target?.branch ?? "contributions",
+      baseRef: target?.baseRef,
+    });
+  };
+
   return (
     <div className="panel">
       <div className="panel-header">
         <h3>Repository Target</h3>
-        <p>The server will create a new Git repo inside its configured output root.</p>
+        <p>
+          {target
+            ? "The server will add a new branch to an existing repo inside its output root."
+            : "The server will create a new Git repo inside its configured output root."}
+        </p>
       </div>
       <div className="panel-body">
         <label className="field">
@@ -32,6 +100,137 @@ export function FolderInputs({ folderName, onFolderNameChange }: FolderInputsPro
           />
         </label>
         <span className="helper-text">Allowed: letters, numbers, dots, dashes, underscores.</span>
+        <label className="field">
+          <span>Write to</span>
+          <select
+            value={target?.mode ?? "new"}
+            onChange={(event) => handleModeChange(event.target.value)}
+          >
+            <option value="new">New repository</option>
+            <option value="orphan">Existing repo, orphan branch</option>
+            <option value="branch">Existing repo, branch from a ref</option>
+          </select>
+        </label>
+        {target && (
+          <>
+            <label className="field">
+              <span>Branch name</span>
+              <input
+                type="text"
+                value={target.branch}
+                onChange={(event) =>
+                  onTargetChange({ ...target, branch: event.target.value })
+                }
+              />
+            </label>
+            {target.mode === "branch" && (
+              <label className="field">
+                <span>Base ref</span>
+                <input
+                  type="text"
+                  placeholder="HEAD"
+                  value={target.baseRef ?? ""}
+                  onChange={(event) =>
+                    onTargetChange({
+                      ...target,
+                      baseRef: event.target.value.trim() || undefined,
+                    })
+                  }
+                />
+              </label>
+            )}
+            <span className="helper-text">
+              The branch must not exist yet and the repo must have no
+              uncommitted changes.
+            </span>
+          </>
+        )}
+        <label className="field">
+          <span>Commit contents</span>
+          <select
+            value={contentGenerator.name}
+            onChange={(event) =>
+              onContentGeneratorChange(
+                GENERATOR_OPTIONS[
+                  event.target.value as ContentGeneratorConfig["name"]
+                ].config
+              )
+            }
+          >
+            {(
+              Object.keys(GENERATOR_OPTIONS) as ContentGeneratorConfig["name"][]
+            ).map((name) => (
+              <option key={name} value={name}>
+                {GENERATOR_OPTIONS[name].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {contentGenerator.name === "journal" && (
+          <label className="field">
+            <span>One journal file per</span>
+            <select
+              value={contentGenerator.rotation ?? "monthly"}
+              onChange={(event) =>
+                onContentGeneratorChange({
+                  name: "journal",
+                  rotation: event.target.value as "daily" | "monthly" | "yearly",
+                })
+              }
+            >
+              <option value="daily">Day</option>
+              <option value="monthly">Month</option>
+              <option value="yearly">Year</option>
+            </select>
+          </label>
+        )}
+        {contentGenerator.name === "changelog" && (
+          <label className="field">
+            <span>Start version</span>
+            <input
+              type="text"
+              placeholder="0.1.0"
+              value={contentGenerator.startVersion ?? ""}
+              onChange={(event) =>
+                onContentGeneratorChange({
+                  name: "changelog",
+                  startVersion: event.target.value.trim() || undefined,
+                })
+              }
+            />
+          </label>
+        )}
+        {contentGenerator.name === "corpus" && (
+          <>
+            <label className="field">
+              <span>Corpus folder name</span>
+              <input
+                type="text"
+                placeholder="my-notes"
+                value={contentGenerator.folderName}
+                onChange={(event) =>
+                  onContentGeneratorChange({
+                    name: "corpus",
+                    folderName: event.target.value,
+                  })
+                }
+              />
+            </label>
+            <span className="helper-text">
+              Text files from this folder under the output root are replayed a
+              few lines per commit.
+            </span>
+          </>
+        )}
+        <label className="field">
+          <span>Content path</span>
+          <input
+            type="text"
+            placeholder={GENERATOR_OPTIONS[contentGenerator.name].defaultPath}
+            value={contentPath}
+            onChange={(event) => onContentPathChange(event.target.value)}
+          />
+        </label>
       </div>
     </div>
   );
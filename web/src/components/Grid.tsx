@@ -31,7 +31,7 @@ export interface GridProps {
 }
 
 /**
- * Renders the 7x51 contribution grid editor.
+ * Renders the contribution grid editor.
  *
  * @param props Component props.
  * @return JSX element.
@@ -54,6 +54,7 @@ export function Grid({
     labelFontSize: 10,
   });
   const rowLabels = getRowLabels(startDate);
+  const cols = grid[0]?.length ?? 0;
 
   useEffect(() => {
     if (!wrapperRef.current) {
@@ -65,7 +66,9 @@ export function Grid({
       const labelGap = clamp(width * 0.02, 8, 12);
       const availableWidth = width - labelWidth - labelGap;
       const safeWidth = Math.max(availableWidth, 1);
-      const cellSize = safeWidth / 61;
+      // Each column is one cell plus a gap of a fifth of a cell.
+      const cellUnits = Math.max(cols * 1.2 - 0.2, 1);
+      const cellSize = Math.min(safeWidth / cellUnits, 24);
       const gap = cellSize / 5;
       const labelFontSize = Math.max(10, cellSize * 0.65);
       setSizing({ cellSize, gap, labelWidth, labelGap, labelFontSize });
@@ -81,7 +84,7 @@ export function Grid({
     updateSizing(wrapperRef.current.getBoundingClientRect().width);
 
     return () => observer.disconnect();
-  }, []);
+  }, [cols]);
 
   const wrapperStyle: CSSProperties = {
     "--cell-size": `${sizing.cellSize}px`,
@@ -89,6 +92,7 @@ export function Grid({
     "--labels-width": `${sizing.labelWidth}px`,
     "--label-gap": `${sizing.labelGap}px`,
     "--label-font-size": `${sizing.labelFontSize}px`,
+    "--grid-cols": cols,
   };
 
   return (
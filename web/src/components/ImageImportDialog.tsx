@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import type { ChangeEvent } from "react";
+import type { CommitLevel, GridPayload } from "../../../shared/src/types";
+import { importImage } from "../api/client";
+import { LevelPreviewGrid } from "./LevelPreviewGrid";
+
+const PREVIEW_DEBOUNCE_MS = 250;
+
+/**
+ * Props for the image import dialog.
+ */
+export interface ImageImportDialogProps {
+  /** Grid width in week columns. */
+  cols: number;
+  /** Replaces the canvas with the imported levels. */
+  onApply: (levels: CommitLevel[][]) => void;
+  /** Closes the dialog. */
+  onClose: () => void;
+}
+
+/**
+ * Renders an upload dialog that converts an image into grid levels.
+ *
+ * @param props Component props.
+ * @return JSX element.
+ */
+export function ImageImportDialog({ cols, onApply, onClose }: ImageImportDialogProps) {
+  const [imageBase64, setImageBase64] = useState("");
+  const [threshold, setThreshold] = useState(0.1);
+  const [contrast, setContrast] = useState(1);
+  const [invert, setInvert] = useState(false);
+  const [dither, setDither] = useState(false);
+  const [stretch, setStretch] = useState(false);
+  const [result, setResult] = useState<GridPayload | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!imageBase64) {
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await importImage({
+          imageBase64,
+          cols,
+          threshold,
+          contrast,
+          invert,
+          dither,
+          stretch,
+        });
+        if (!cancelled) {
+          setResult(response.grid);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setResult(null);
+          setError(err instanceof Error ? err.message : "Failed to import image.");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [imageBase64, cols, threshold, contrast, invert, dither, stretch]);
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setImageBase64(String(reader.result ?? ""));
+    reader.onerror = () => setError("Unable to read the selected file.");
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="dialog-backdrop" role="presentation" onClick={onClose}>
+      <div
+        className="panel dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Import image"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="panel-header">
+          <h3>Import Image</h3>
+          <p>Upload a small PNG or BMP. It is scaled to 7 rows and mapped to levels.</p>
+        </div>
+        <div className="panel-body">
+          <label className="field">
+            <span>Image file</span>
+            <input type="file" accept="image/png,image/bmp,.png,.bmp" onChange={handleFileChange} />
+          </label>
+          <label className="field">
+            <span>Threshold ({threshold.toFixed(2)})</span>
+            <input
+              type="range"
+              min={0}
+              max={0.95}
+              step={0.01}
+              value={threshold}
+              onChange={(event) => setThreshold(Number(event.target.value))}
+            />
+          </label>
+          <label className="field">
+            <span>Contrast ({contrast.toFixed(1)})</span>
+            <input
+              type="range"
+              min={0.2}
+              max={3}
+              step={0.1}
+              value={contrast}
+              onChange={(event) => setContrast(Number(event.target.value))}
+            />
+          </label>
+          <div className="field-row">
+            <label className="checkbox-field">
+              <input
+                type="checkbox"
+                checked={invert}
+                onChange={(event) => setInvert(event.target.checked)}
+              />
+              <span>Invert</span>
+            </label>
+            <label className="checkbox-field">
+              <input
+                type="checkbox"
+                checked={dither}
+                onChange={(event) => setDither(event.target.checked)}
+              />
+              <span>Dither</span>
+            </label>
+            <label className="checkbox-field">
+              <input
+                type="checkbox"
+                checked={stretch}
+                onChange={(event) => setStretch(event.target.checked)}
+              />
+              <span>Stretch to width</span>
+            </label>
+          </div>
+          {result && <LevelPreviewGrid title="Result" levels={result.levels} />}
+          {isLoading && <span className="helper-text">Converting...</span>}
+          {error && <span className="warning">{error}</span>}
+          <div className="actions">
+            <button type="button" className="secondary" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="primary"
+              disabled={!result || isLoading}
+              onClick={() => result && onApply(result.levels)}
+            >
+              Replace canvas
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
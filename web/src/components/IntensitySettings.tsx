@@ -1,15 +1,42 @@
-import type { CommitIntensityMap, CommitLevel } from "../../../shared/src/types";
+import type {
+  CommitDistribution,
+  CommitIntensityMap,
+  CommitLevel,
+  DistributionStrategy,
+} from "../../../shared/src/types";
 
 const LEVELS: CommitLevel[] = [0, 1, 2, 3, 4];
 
+const STRATEGY_LABELS: Record<DistributionStrategy, string> = {
+  uniform: "Uniform",
+  fixed: "Fixed per level",
+  triangular: "Triangular",
+  gaussian: "Gaussian",
+  smooth: "Smooth",
+};
+
 /**
  * Props for intensity settings.
  */
 export interface IntensitySettingsProps {
   /** Current intensity map. */
   intensityMap: CommitIntensityMap;
+  /** Current commit-count distribution. */
+  distribution: CommitDistribution;
+  /** Map suggested by the last calibration run, if any. */
+  calibratedMap: CommitIntensityMap | null;
+  /** Whether a calibration request is running. */
+  isCalibrating: boolean;
+  /** Whether calibration can be requested right now. */
+  canCalibrate: boolean;
   /** Handler invoked when intensity changes. */
   onIntensityChange: (map: CommitIntensityMap) => void;
+  /** Handler invoked when the distribution changes. */
+  onDistributionChange: (distribution: CommitDistribution) => void;
+  /** Handler that requests a calibrated map from the server. */
+  onCalibrate: () => void;
+  /** Handler that applies the calibrated map. */
+  onApplyCalibration: () => void;
 }
 
 /**
@@ -20,7 +47,14 @@ export interface IntensitySettingsProps {
  */
 export function IntensitySettings({
   intensityMap,
+  distribution,
+  calibratedMap,
+  isCalibrating,
+  canCalibrate,
   onIntensityChange,
+  onDistributionChange,
+  onCalibrate,
+  onApplyCalibration,
 }: IntensitySettingsProps) {
   const handleChange = (
     level: CommitLevel,
@@ -40,6 +74,29 @@ export function IntensitySettings({
     onIntensityChange(next);
   };
 
+  const handleFixedChange = (level: CommitLevel, value: string) => {
+    const fixedByLevel = { ...distribution.fixedByLevel };
+    if (value === "") {
+      delete fixedByLevel[level];
+    } else {
+      fixedByLevel[level] = Math.max(0, Number(value) || 0);
+    }
+    onDistributionChange({ ...distribution, fixedByLevel });
+  };
+
+  const handleParamChange = (
+    field: "mean" | "spread" | "maxStep",
+    value: string
+  ) => {
+    const parsed = Number(value);
+    onDistributionChange({
+      ...distribution,
+      [field]: value === "" || !Number.isFinite(parsed) ? undefined : parsed,
+    });
+  };
+
+  const isFixed = distribution.strategy === "fixed";
+
   return (
     <div className="panel">
       <div className="panel-header">
@@ -79,10 +136,113 @@ export function IntensitySettings({
                   }
                 />
               </label>
+              {isFixed && (
+                <label className="field compact">
+                  <span>Fixed</span>
+                  <input
+                    type="number"
+                    min={min}
+                    max={max}
+                    placeholder={String(Math.round((min + max) / 2))}
+                    value={distribution.fixedByLevel?.[level] ?? ""}
+                    disabled={isLocked}
+                    onChange={(event) => handleFixedChange(level, event.target.value)}
+                  />
+                </label>
+              )}
             </div>
           );
         })}
         <span className="helper-text">Level 0 always stays empty.</span>
+        <label className="field">
+          <span>Distribution</span>
+          <select
+            value={distribution.strategy}
+            onChange={(event) =>
+              onDistributionChange({
+                ...distribution,
+                strategy: event.target.value as DistributionStrategy,
+              })
+            }
+          >
+            {(Object.keys(STRATEGY_LABELS) as DistributionStrategy[]).map(
+              (strategy) => (
+                <option key={strategy} value={strategy}>
+                  {STRATEGY_LABELS[strategy]}
+                </option>
+              )
+            )}
+          </select>
+        </label>
+        {(distribution.strategy === "triangular" ||
+          distribution.strategy === "gaussian") && (
+          <div className="field-row">
+            <label className="field compact">
+              <span>Mean (0-1)</span>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                placeholder="0.5"
+                value={distribution.mean ?? ""}
+                onChange={(event) => handleParamChange("mean", event.target.value)}
+              />
+            </label>
+            {distribution.strategy === "gaussian" && (
+              <label className="field compact">
+                <span>Spread</span>
+                <input
+                  type="number"
+                  min={0.05}
+                  step={0.05}
+                  placeholder="0.25"
+                  value={distribution.spread ?? ""}
+                  onChange={(event) =>
+                    handleParamChange("spread", event.target.value)
+                  }
+                />
+              </label>
+            )}
+          </div>
+        )}
+        {distribution.strategy === "smooth" && (
+          <label className="field compact">
+            <span>Max step</span>
+            <input
+              type="number"
+              min={0}
+              placeholder="1"
+              value={distribution.maxStep ?? ""}
+              onChange={(event) => handleParamChange("maxStep", event.target.value)}
+            />
+          </label>
+        )}
+        <span className="helper-text">
+          Controls how counts are picked inside each range. Smooth keeps
+          neighbouring days of the same level close together.
+        </span>
+        <div className="field-row">
+          <button
+            type="button"
+            className="secondary"
+            onClick={onCalibrate}
+            disabled={!canCalibrate}
+          >
+            {isCalibrating ? "Calibrating..." : "Auto-calibrate"}
+          </button>
+          {calibratedMap && (
+            <button type="button" className="primary" onClick={onApplyCalibration}>
+              Apply {LEVELS.slice(1)
+                .map((level) => calibratedMap.minByLevel[level])
+                .join(" / ")}
+            </button>
+          )}
+        </div>
+        <span className="helper-text">
+          Auto-calibrate finds the lowest per-level counts that keep each level in
+          its own GitHub shade.
+        </span>
       </div>
     </div>
   );
@@ -0,0 +1,51 @@
+import type { CSSProperties } from "react";
+import type { CommitLevel } from "../../../shared/src/types";
+
+/**
+ * Props for a read-only level grid.
+ */
+export interface LevelPreviewGridProps {
+  /** Accessible title for the grid. */
+  title: string;
+  /** Levels by row then column. */
+  levels: CommitLevel[][];
+  /** Optional cells to outline, keyed by `row:col`. */
+  highlighted?: Set<string>;
+}
+
+/**
+ * Renders a compact, read-only contribution grid.
+ *
+ * @param props Component props.
+ * @return JSX element.
+ */
+export function LevelPreviewGrid({
+  title,
+  levels,
+  highlighted,
+}: LevelPreviewGridProps) {
+  const cols = levels[0]?.length ?? 0;
+  const style: CSSProperties = { "--grid-cols": cols } as CSSProperties;
+
+  return (
+    <figure className="level-preview">
+      <figcaption>{title}</figcaption>
+      <div className="level-preview-grid" role="img" aria-label={title} style={style}>
+        {levels.map((row, rowIndex) =>
+          row.map((level, colIndex) => {
+            const key = `${rowIndex}:${colIndex}`;
+            const isHighlighted = highlighted?.has(key) ?? false;
+            return (
+              <span
+                key={key}
+                className={`level-preview-cell level-${level} ${
+                  isHighlighted ? "mismatch" : ""
+                }`}
+              />
+            );
+          })
+        )}
+      </div>
+    </figure>
+  );
+}
@@ -1,4 +1,27 @@
-import type { CommitPlanSummary } from "../../../shared/src/types";
+import { useState } from "react";
+import type {
+  AuthorContribution,
+  CommitLevel,
+  CommitPlanEntry,
+  CommitPlanSummary,
+  PredictedLevels,
+  PushReport,
+  RepoDownloadFormat,
+  SigningReport,
+  VerificationReport,
+} from "../../../shared/src/types";
+import { repoDownloadUrl } from "../api/client";
+import { LevelPreviewGrid } from "./LevelPreviewGrid";
+
+const MESSAGE_SAMPLE_SIZE = 8;
+
+const VERIFICATION_SAMPLE_SIZE = 8;
+
+const DOWNLOAD_FORMATS: Array<{ format: RepoDownloadFormat; label: string }> = [
+  { format: "bundle", label: "Download bundle" },
+  { format: "tar.gz", label: "Download .tar.gz" },
+  { format: "zip", label: "Download .zip" },
+];
 
 /**
  * Props for the preview panel.
@@ -8,18 +31,44 @@ export interface PreviewPanelProps {
   summary: CommitPlanSummary | null;
   /** Warnings to display. */
   warnings: string[];
+  /** Planned entries in grid order, used to redraw the drawn levels. */
+  plan?: CommitPlanEntry[];
+  /** Predicted GitHub rendering of the plan. */
+  predictedLevels?: PredictedLevels;
   /** Optional repository path after generation. */
   repoPath?: string;
   /** Optional git log sample lines. */
   gitLogSample?: string[];
+  /** Optional branch the commits were written to. */
+  branch?: string;
+  /** Optional number of commits added by generation. */
+  commitsAdded?: number;
+  /** Optional signature verification results. */
+  signing?: SigningReport;
+  /** Optional push outcome. */
+  push?: PushReport;
+  /** Optional comparison of the written history with the plan. */
+  verification?: VerificationReport;
+  /** Optional per-author totals when a team is set. */
+  authorContributions?: AuthorContribution[];
   /** Current loading action. */
   loadingAction: "preview" | "generate" | null;
   /** Progress percentage for the active action. */
   progress: number;
   /** Current status for progress updates. */
-  progressStatus: "pending" | "running" | "complete" | "error" | null;
+  progressStatus:
+    | "pending"
+    | "running"
+    | "complete"
+    | "error"
+    | "cancelled"
+    | null;
   /** Progress status message. */
   progressMessage: string;
+  /** Whether a cancellation was requested for the running generation. */
+  isCancelling?: boolean;
+  /** Cancels the running generation, optionally keeping its commits. */
+  onCancel?: (keepPartial: boolean) => void;
   /** Folder name for push instructions. */
   folderName: string;
   /** GitHub username for push instructions. */
@@ -35,12 +84,22 @@ export interface PreviewPanelProps {
 export function PreviewPanel({
   summary,
   warnings,
+  plan,
+  predictedLevels,
   repoPath,
   gitLogSample,
+  branch,
+  commitsAdded,
+  signing,
+  push,
+  verification,
+  authorContributions,
   loadingAction,
   progress,
   progressStatus,
   progressMessage,
+  isCancelling,
+  onCancel,
   folderName,
   githubUsername,
 }: PreviewPanelProps) {
@@ -52,8 +111,18 @@ export function PreviewPanel({
     progressMessage ||
     (progressStatus === "pending" ? "Waiting for generation" : "Writing commits");
   const resolvedFolder = folderName.trim();
+  const generatedFolder = repoPath?.split(/[\\/]/).pop() ?? resolvedFolder;
   const resolvedUsername = githubUsername.trim();
   const hasPushValues = resolvedFolder.length > 0 && resolvedUsername.length > 0;
+  const sampleMessages = (plan ?? [])
+    .flatMap((entry) =>
+      (entry.messages ?? []).map((message) => `${entry.date}  ${message}`)
+    )
+    .slice(0, MESSAGE_SAMPLE_SIZE);
+  const [selectedAuthor, setSelectedAuthor] = useState(0);
+  const activeAuthor = authorContributions?.[selectedAuthor] ?? authorContributions?.[0];
+  const showPrediction =
+    !!predictedLevels && !!plan && plan.length > 0 && !isLoading;
 
   if (!summary && !isLoading) {
     return (
@@ -95,6 +164,31 @@ export function PreviewPanel({
             <p className="helper-text">
               Larger patterns take longer. Keep this tab open while it runs.
             </p>
+            {onCancel && (
+              <div className="actions">
+                <button
+                  type="button"
+                  className="secondary"
+                  disabled={isCancelling}
+                  onClick={() => onCancel(false)}
+                >
+                  {isCancelling ? "Cancelling..." : "Cancel"}
+                </button>
+                <button
+                  type="button"
+                  className="secondary"
+                  disabled={isCancelling}
+                  onClick={() => onCancel(true)}
+                >
+                  Cancel and keep commits
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+        {progressStatus === "cancelled" && !isLoading && (
+          <div className="progress-card" role="status">
+            <span className="helper-text">{progressMessage}</span>
           </div>
         )}
         {isPreviewing && (
@@ -117,6 +211,12 @@ export function PreviewPanel({
               <span>Active days</span>
               <strong>{summary.activeDays}</strong>
             </div>
+            {summary.existingCommits !== undefined && (
+              <div>
+                <span>Existing commits</span>
+                <strong>{summary.existingCommits}</strong>
+              </div>
+            )}
             <div>
               <span>First grid date</span>
               <strong>{summary.firstGridDate}</strong>
@@ -127,6 +227,55 @@ export function PreviewPanel({
             </div>
           </div>
         )}
+        {showPrediction && (
+          <div className="prediction">
+            <h4>Drawn vs. predicted</h4>
+            <div className="prediction-grids">
+              <LevelPreviewGrid title="Drawn" levels={buildDrawnLevels(plan)} />
+              <LevelPreviewGrid
+                title="Predicted on GitHub"
+                levels={predictedLevels.levels}
+                highlighted={buildMismatchKeys(plan, predictedLevels)}
+              />
+            </div>
+            <p className="helper-text">
+              {predictedLevels.mismatches.length === 0
+                ? "Every cell should render at its drawn level."
+                : `${predictedLevels.mismatches.length} cell(s) will render at a different level (outlined). Quartile thresholds: ${predictedLevels.thresholds.join(" / ")} commits.`}
+            </p>
+          </div>
+        )}
+        {activeAuthor && plan && plan.length > 0 && !isLoading && (
+          <div className="author-contributions">
+            <h4>Authors</h4>
+            <div className="author-list">
+              {authorContributions!.map((author, index) => (
+                <button
+                  type="button"
+                  key={`${author.email}-${index}`}
+                  className={author === activeAuthor ? "primary" : "secondary"}
+                  onClick={() => setSelectedAuthor(index)}
+                >
+                  {author.name}: {author.commitCount} commits
+                  {author.coAuthoredCount > 0
+                    ? `, ${author.coAuthoredCount} co-authored`
+                    : ""}
+                </button>
+              ))}
+            </div>
+            <LevelPreviewGrid
+              title={`Days ${activeAuthor.name} commits on`}
+              levels={buildDrawnLevels(plan)}
+              highlighted={buildDateKeys(plan, new Set(activeAuthor.dates))}
+            />
+          </div>
+        )}
+        {sampleMessages.length > 0 && !isLoading && (
+          <div className="message-sample">
+            <h4>Commit messages</h4>
+            <pre>{sampleMessages.join("\n")}</pre>
+          </div>
+        )}
         {summary && warnings.length > 0 && (
           <div className="warnings">
             <h4>Warnings</h4>
@@ -144,37 +293,177 @@ export function PreviewPanel({
             </div>
             <h4>Generated Repository</h4>
             <p>{repoPath}</p>
-            {gitLogSample && gitLogSample.length > 0 && (
-              <pre>{gitLogSample.join("\n")}</pre>
+            {branch && commitsAdded !== undefined && (
+              <p className="helper-text">
+                Added {commitsAdded} commits to{" "}
+                <strong className="inline-highlight">{branch}</strong>.
+              </p>
+            )}
+            {signing && (
+              <p className="helper-text">
+                Signed with <strong className="inline-highlight">{signing.keyName}</strong>{" "}
+                ({signing.format}): {signing.verifiedCommits} verified,{" "}
+                {signing.unverifiedCommits} unverified.
+              </p>
             )}
-            <div className="push-instructions">
-              <h4>Push to GitHub</h4>
-              {hasPushValues ? (
-                <>
+            {verification &&
+              (verification.matches ? (
+                <p className="helper-text" role="status">
+                  Verified: all {verification.actualCommits} commits landed on
+                  their planned days.
+                </p>
+              ) : (
+                <div className="warnings" role="status">
+                  <h4>Verification</h4>
                   <p className="helper-text">
-                    Create a GitHub repo named{" "}
-                    <strong className="inline-highlight">{resolvedFolder}</strong>{" "}
-                    under{" "}
-                    <strong className="inline-highlight">{resolvedUsername}</strong>{" "}
-                    first, then run:
+                    Found {verification.actualCommits} of{" "}
+                    {verification.plannedCommits} planned commits, and some
+                    days differ from the plan.
                   </p>
-                  <pre className="instruction-block">{`cd ${resolvedFolder}
+                  <ul>
+                    {describeVerificationIssues(verification).map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            {gitLogSample && gitLogSample.length > 0 && (
+              <pre>{gitLogSample.join("\n")}</pre>
+            )}
+            <div className="download-links">
+              {DOWNLOAD_FORMATS.map(({ format, label }) => (
+                <a
+                  key={format}
+                  className="download-link"
+                  href={repoDownloadUrl(generatedFolder, format)}
+                  download
+                >
+                  {label}
+                </a>
+              ))}
+            </div>
+            {push && (
+              <p className="helper-text" role="status">
+                {push.pushed ? (
+                  <>
+                    Pushed <strong className="inline-highlight">{push.branch}</strong>{" "}
+                    to <strong className="inline-highlight">{push.remote}</strong>{" "}
+                    (origin).
+                  </>
+                ) : (
+                  <>
+                    Push to <strong className="inline-highlight">{push.remote}</strong>{" "}
+                    failed; the local repository was kept. {push.error}
+                  </>
+                )}
+              </p>
+            )}
+            {!push?.pushed && (
+              <div className="push-instructions">
+                <h4>Push to GitHub</h4>
+                {hasPushValues ? (
+                  <>
+                    <p className="helper-text">
+                      Create a GitHub repo named{" "}
+                      <strong className="inline-highlight">{resolvedFolder}</strong>{" "}
+                      under{" "}
+                      <strong className="inline-highlight">{resolvedUsername}</strong>{" "}
+                      first, then run:
+                    </p>
+                    <pre className="instruction-block">{`cd ${resolvedFolder}
 git remote add origin git@github.com:${resolvedUsername}/${resolvedFolder}.git
-git push -u origin main`}</pre>
+git push -u origin ${branch ?? "main"}`}</pre>
+                    <p className="helper-text">
+                      Uses your GitHub username and folder name from the form above.
+                    </p>
+                  </>
+                ) : (
                   <p className="helper-text">
-                    Uses your GitHub username and folder name from the form above.
+                    Add a GitHub username and folder name to see the exact push
+                    commands.
                   </p>
-                </>
-              ) : (
-                <p className="helper-text">
-                  Add a GitHub username and folder name to see the exact push
-                  commands.
-                </p>
-              )}
-            </div>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
     </div>
   );
 }
+
+/**
+ * Rebuilds the drawn levels from plan entries in grid order.
+ *
+ * @param plan Plan entries, column by column.
+ * @return Levels by row then column.
+ */
+function buildDrawnLevels(plan: CommitPlanEntry[]): CommitLevel[][] {
+  const cols = Math.ceil(plan.length / 7);
+  const levels: CommitLevel[][] = Array.from({ length: 7 }, () =>
+    Array.from({ length: cols }, () => 0 as CommitLevel)
+  );
+  plan.forEach((entry, index) => {
+    levels[index % 7][Math.floor(index / 7)] = entry.level;
+  });
+  return levels;
+}
+
+/**
+ * Collects the `row:col` keys of cells whose predicted level differs.
+ *
+ * @param plan Plan entries, column by column.
+ * @param predicted Predicted levels.
+ * @return Set of mismatching cell keys.
+ */
+function buildMismatchKeys(
+  plan: CommitPlanEntry[],
+  predicted: PredictedLevels
+): Set<string> {
+  return buildDateKeys(
+    plan,
+    new Set(predicted.mismatches.map((item) => item.date))
+  );
+}
+
+/**
+ * Collects the `row:col` keys of cells whose date is in a set.
+ *
+ * @param plan Plan entries, column by column.
+ * @param dates Dates to mark.
+ * @return Set of `row:col` keys.
+ */
+function buildDateKeys(plan: CommitPlanEntry[], dates: Set<string>): Set<string> {
+  const keys = new Set<string>();
+  plan.forEach((entry, index) => {
+    if (dates.has(entry.date)) {
+      keys.add(`${index % 7}:${Math.floor(index / 7)}`);
+    }
+  });
+  return keys;
+}
+
+/**
+ * Lists the differences a verification found, shifted commits first.
+ *
+ * @param report Verification report.
+ * @return Readable lines, capped with a remainder note.
+ */
+function describeVerificationIssues(report: VerificationReport): string[] {
+  const issues = [
+    ...report.shifted.map(
+      (shift) =>
+        `${shift.count} commit(s) planned for ${shift.plannedDate} landed on ${shift.actualDate}`
+    ),
+    ...report.missing.map(
+      (day) => `${day.date}: ${day.count} missing (${day.actual} of ${day.planned})`
+    ),
+    ...report.extra.map(
+      (day) => `${day.date}: ${day.count} extra (${day.actual} of ${day.planned})`
+    ),
+  ];
+  const remaining = issues.length - VERIFICATION_SAMPLE_SIZE;
+  return remaining > 0
+    ? [...issues.slice(0, VERIFICATION_SAMPLE_SIZE), `and ${remaining} more`]
+    : issues;
+}
@@ -0,0 +1,199 @@
+import type { AuthorsConfig, TeamMember } from "../../../shared/src/types";
+
+const WEEKDAY_LABELS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+
+/**
+ * Props for team author settings.
+ */
+export interface TeamSettingsProps {
+  /** Current team, or undefined when commits use a single identity. */
+  authors: AuthorsConfig | undefined;
+  /** Handler invoked when the team changes. */
+  onAuthorsChange: (authors: AuthorsConfig | undefined) => void;
+}
+
+/**
+ * Renders controls for distributing commits among several authors.
+ *
+ * @param props Component props.
+ * @return JSX element.
+ */
+export function TeamSettings({ authors, onAuthorsChange }: TeamSettingsProps) {
+  const members = authors?.members ?? [];
+
+  const updateMember = (index: number, patch: Partial<TeamMember>) => {
+    if (!authors) {
+      return;
+    }
+    onAuthorsChange({
+      ...authors,
+      members: members.map((member, i) =>
+        i === index ? { ...member, ...patch } : member
+      ),
+    });
+  };
+
+  const toggleWeekday = (index: number, weekday: number) => {
+    const current = members[index].weekdays ?? [0, 1, 2, 3, 4, 5, 6];
+    const next = current.includes(weekday)
+      ? current.filter((day) => day !== weekday)
+      : [...current, weekday].sort();
+    updateMember(index, { weekdays: next.length === 7 ? undefined : next });
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h3>Team Authors</h3>
+        <p>Spread commits across several identities instead of one.</p>
+      </div>
+      <div className="panel-body">
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={!!authors}
+            onChange={(event) =>
+              onAuthorsChange(
+                event.target.checked
+                  ? { members: [{ name: "", email: "" }] }
+                  : undefined
+              )
+            }
+          />
+          <span>Distribute commits among a team</span>
+        </label>
+        {authors && (
+          <>
+            {members.map((member, index) => (
+              <div className="team-member" key={index}>
+                <div className="field-row">
+                  <label className="field">
+                    <span>Name</span>
+                    <input
+                      type="text"
+                      value={member.name}
+                      onChange={(event) =>
+                        updateMember(index, { name: event.target.value })
+                      }
+                    />
+                  </label>
+                  <label className="field">
+                    <span>Email</span>
+                    <input
+                      type="email"
+                      value={member.email}
+                      onChange={(event) =>
+                        updateMember(index, { email: event.target.value })
+                      }
+                    />
+                  </label>
+                  <label className="field team-weight">
+                    <span>Weight</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={member.weight ?? 1}
+                      onChange={(event) =>
+                        updateMember(index, {
+                          weight: Number(event.target.value),
+                        })
+                      }
+                    />
+                  </label>
+                </div>
+                <div className="team-weekdays">
+                  {WEEKDAY_LABELS.map((label, weekday) => (
+                    <label className="checkbox-field" key={label}>
+                      <input
+                        type="checkbox"
+                        checked={member.weekdays?.includes(weekday) ?? true}
+                        onChange={() => toggleWeekday(index, weekday)}
+                      />
+                      <span>{label}</span>
+                    </label>
+                  ))}
+                  <button
+                    type="button"
+                    className="secondary"
+                    disabled={members.length === 1}
+                    onClick={() =>
+                      onAuthorsChange({
+                        ...authors,
+                        members: members.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="secondary"
+              onClick={() =>
+                onAuthorsChange({
+                  ...authors,
+                  members: [...members, { name: "", email: "" }],
+                })
+              }
+            >
+              Add author
+            </button>
+            <label className="field">
+              <span>Co-author trailer chance (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round((authors.coAuthorProbability ?? 0) * 100)}
+                onChange={(event) =>
+                  onAuthorsChange({
+                    ...authors,
+                    coAuthorProbability: Number(event.target.value) / 100,
+                  })
+                }
+              />
+            </label>
+            <div className="field-row">
+              <label className="field">
+                <span>Committer name (optional)</span>
+                <input
+                  type="text"
+                  placeholder="Same as author"
+                  value={authors.committer?.name ?? ""}
+                  onChange={(event) =>
+                    onAuthorsChange({
+                      ...authors,
+                      committer: {
+                        name: event.target.value,
+                        email: authors.committer?.email ?? "",
+                      },
+                    })
+                  }
+                />
+              </label>
+              <label className="field">
+                <span>Committer email</span>
+                <input
+                  type="email"
+                  value={authors.committer?.email ?? ""}
+                  onChange={(event) =>
+                    onAuthorsChange({
+                      ...authors,
+                      committer: {
+                        name: authors.committer?.name ?? "",
+                        email: event.target.value,
+                      },
+                    })
+                  }
+                />
+              </label>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
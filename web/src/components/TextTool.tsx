@@ -0,0 +1,123 @@
+import { useState } from "react";
+import type {
+  CommitLevel,
+  PixelFontName,
+  RenderTextRequest,
+  TextAlign,
+} from "../../../shared/src/types";
+
+/**
+ * Props for the text banner tool.
+ */
+export interface TextToolProps {
+  /** Whether another action is running. */
+  disabled: boolean;
+  /** Renders the text and merges it into the canvas. */
+  onRenderText: (request: RenderTextRequest) => Promise<void>;
+}
+
+/**
+ * Renders controls for writing text onto the canvas.
+ *
+ * @param props Component props.
+ * @return JSX element.
+ */
+export function TextTool({ disabled, onRenderText }: TextToolProps) {
+  const [text, setText] = useState("");
+  const [font, setFont] = useState<PixelFontName>("5x7");
+  const [align, setAlign] = useState<TextAlign>("center");
+  const [letterSpacing, setLetterSpacing] = useState(1);
+  const [offset, setOffset] = useState(0);
+  const [level, setLevel] = useState<CommitLevel>(4);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    setError(null);
+    setIsRendering(true);
+    try {
+      await onRenderText({ text, font, align, letterSpacing, offset, level });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to render text.");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="text-tool">
+      <div className="text-tool-fields">
+        <label className="field">
+          <span>Text</span>
+          <input
+            type="text"
+            placeholder="HELLO"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+          />
+        </label>
+        <label className="field compact">
+          <span>Font</span>
+          <select
+            value={font}
+            onChange={(event) => setFont(event.target.value as PixelFontName)}
+          >
+            <option value="5x7">5x7</option>
+            <option value="3x5">3x5</option>
+          </select>
+        </label>
+        <label className="field compact">
+          <span>Align</span>
+          <select
+            value={align}
+            onChange={(event) => setAlign(event.target.value as TextAlign)}
+          >
+            <option value="left">Left</option>
+            <option value="center">Center</option>
+            <option value="right">Right</option>
+          </select>
+        </label>
+        <label className="field compact">
+          <span>Spacing</span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={letterSpacing}
+            onChange={(event) => setLetterSpacing(Number(event.target.value) || 0)}
+          />
+        </label>
+        <label className="field compact">
+          <span>Offset</span>
+          <input
+            type="number"
+            value={offset}
+            onChange={(event) => setOffset(Number(event.target.value) || 0)}
+          />
+        </label>
+        <label className="field compact">
+          <span>Level</span>
+          <select
+            value={level}
+            onChange={(event) => setLevel(Number(event.target.value) as CommitLevel)}
+          >
+            {[1, 2, 3, 4].map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          className="secondary"
+          onClick={handleSubmit}
+          disabled={disabled || isRendering || !text.trim()}
+        >
+          {isRendering ? "Rendering..." : "Add text"}
+        </button>
+      </div>
+      {error && <span className="warning">{error}</span>}
+    </div>
+  );
+}
@@ -71,12 +71,18 @@ export function diffInDays(startDate: string, endDate: string): number {
 
 /**
  * Calculates a suggested date range for a given year using the first Sunday
- * on or after January 1 and spanning 51 full weeks.
+ * on or after January 1. When the requested width would run past the end of
+ * the year, the range starts on the Sunday on or before January 1 instead,
+ * matching the full-year view GitHub shows.
  *
  * @param year Target year.
+ * @param cols Number of week columns in the grid.
  * @return Start and end ISO dates.
  */
-export function suggestRangeForYear(year: number): {
+export function suggestRangeForYear(
+  year: number,
+  cols = 51
+): {
   startDate: string;
   endDate: string;
 } {
@@ -84,11 +90,27 @@ export function suggestRangeForYear(year: number): {
   const dayOfWeek = jan1.getDay();
   const firstSunday = new Date(jan1);
   firstSunday.setDate(jan1.getDate() + ((7 - dayOfWeek) % 7));
-  const startIso = formatIsoDate(firstSunday);
-  const endIso = addDays(startIso, 7 * 51 - 1);
+  let startIso = formatIsoDate(firstSunday);
+  if (getGridEndDate(startIso, cols) > `${year}-12-31`) {
+    const previousSunday = new Date(jan1);
+    previousSunday.setDate(jan1.getDate() - dayOfWeek);
+    startIso = formatIsoDate(previousSunday);
+  }
+  const endIso = getGridEndDate(startIso, cols);
   return { startDate: startIso, endDate: endIso };
 }
 
+/**
+ * Returns the last date covered by a 7-row grid.
+ *
+ * @param startDate Start date.
+ * @param cols Number of week columns.
+ * @return ISO date string for the bottom-right cell.
+ */
+export function getGridEndDate(startDate: string, cols: number): string {
+  return addDays(startDate, 7 * cols - 1);
+}
+
 /**
  * Returns the ISO date for a grid cell.
  *